@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CalendarRange } from 'lucide-react'
+import type { ReviewCycle } from '@/lib/supabase'
+import type { UnfinalizedReview } from '@/lib/review-cycles'
+import { REVIEW_CYCLE_STATUS_LABELS } from '@/lib/review-cycles'
+import { REVIEW_STATUS_LABELS } from '@/lib/reviews'
+
+const EMPTY_FORM = { name: '', year: String(new Date().getFullYear()), start_date: '', end_date: '' }
+
+export default function ReviewCyclesAdminPage() {
+  const [cycles, setCycles] = useState<ReviewCycle[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null)
+  const [unfinalized, setUnfinalized] = useState<UnfinalizedReview[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCycles = async () => {
+    try {
+      const response = await fetch('/api/review-cycles')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setCycles(result.cycles)
+    } catch (err) {
+      setError(`Could not load review cycles: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  useEffect(() => {
+    loadCycles()
+  }, [])
+
+  const loadUnfinalized = async (cycleId: string) => {
+    setSelectedCycleId(cycleId)
+    try {
+      const response = await fetch(`/api/review-cycles/${cycleId}/unfinalized`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setUnfinalized(result.unfinalized)
+    } catch (err) {
+      setError(`Could not load unfinalized reviews: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  // Runs an admin action and reports its error; returns the parsed body on success
+  const runAction = async (id: string, url: string, body?: object) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      return result
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await runAction('new', '/api/review-cycles', { ...form, year: Number(form.year) })
+    if (result) {
+      setForm(EMPTY_FORM)
+      await loadCycles()
+    }
+  }
+
+  const handleActivate = async (cycle: ReviewCycle) => {
+    if (await runAction(cycle.id, `/api/review-cycles/${cycle.id}/activate`)) await loadCycles()
+  }
+
+  const handleClose = async (cycle: ReviewCycle) => {
+    if (!confirm(`Close "${cycle.name}"? Reviews that are not reopened become read-only.`)) return
+    const result = await runAction(cycle.id, `/api/review-cycles/${cycle.id}/close`)
+    if (result) {
+      setSelectedCycleId(cycle.id)
+      setUnfinalized(result.unfinalized)
+      await loadCycles()
+    }
+  }
+
+  const handleReopen = async (entry: UnfinalizedReview) => {
+    if (!entry.reviewId) return
+    if (await runAction(entry.reviewId, `/api/reviews/${entry.reviewId}/reopen`)) {
+      setUnfinalized(unfinalized.map(u => u.reviewId === entry.reviewId ? { ...u, reopened: true } : u))
+    }
+  }
+
+  const selectedCycle = cycles.find(cycle => cycle.id === selectedCycleId)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <div className="sonance-card p-6">
+        <h2 className="sonance-title text-lg flex items-center mb-6">
+          <CalendarRange className="h-5 w-5 mr-2" />
+          Review Cycles
+        </h2>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+          <input
+            type="text"
+            placeholder="Name, e.g. 2026 Annual Review"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="md:col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            value={form.year}
+            onChange={(e) => setForm({ ...form, year: e.target.value })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="date"
+            value={form.start_date}
+            onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="date"
+            value={form.end_date}
+            onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="md:col-span-5 flex justify-end">
+            <button
+              type="submit"
+              disabled={busyId === 'new'}
+              className="px-4 py-2 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+            >
+              {busyId === 'new' ? 'Creating...' : 'Create draft cycle'}
+            </button>
+          </div>
+        </form>
+
+        {cycles.length === 0 ? (
+          <p className="text-sm text-gray-500">No review cycles yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Cycle</th>
+                <th className="py-2 font-medium">Year</th>
+                <th className="py-2 font-medium">Dates</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {cycles.map(cycle => (
+                <tr key={cycle.id} className="border-b border-gray-100">
+                  <td className="py-3 font-medium text-gray-800">{cycle.name}</td>
+                  <td className="py-3 text-gray-600">{cycle.year}</td>
+                  <td className="py-3 text-gray-600">{cycle.start_date} – {cycle.end_date}</td>
+                  <td className="py-3">
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                      {REVIEW_CYCLE_STATUS_LABELS[cycle.status]}
+                    </span>
+                  </td>
+                  <td className="py-3 text-right space-x-3">
+                    {cycle.status === 'draft' && (
+                      <button
+                        onClick={() => handleActivate(cycle)}
+                        disabled={busyId === cycle.id}
+                        className="text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        Activate
+                      </button>
+                    )}
+                    {cycle.status === 'active' && (
+                      <button
+                        onClick={() => handleClose(cycle)}
+                        disabled={busyId === cycle.id}
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Close
+                      </button>
+                    )}
+                    {cycle.status !== 'draft' && (
+                      <button onClick={() => loadUnfinalized(cycle.id)} className="text-gray-600 hover:underline">
+                        Unfinalized
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selectedCycle && (
+        <div className="sonance-card p-6">
+          <h3 className="font-medium text-gray-800 mb-4">
+            Not finalized in {selectedCycle.name} ({unfinalized.length})
+          </h3>
+          {unfinalized.length === 0 ? (
+            <p className="text-sm text-gray-500">Every review in this cycle is finalized.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {unfinalized.map(entry => (
+                <li key={entry.employee.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="text-gray-800">{entry.employee.name}</span>
+                    {entry.employee.department && <span className="ml-2 text-gray-500">{entry.employee.department}</span>}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-gray-500">{entry.status ? REVIEW_STATUS_LABELS[entry.status] : 'Not started'}</span>
+                    {selectedCycle.status === 'completed' && entry.reviewId && (
+                      entry.reopened ? (
+                        <span className="text-xs text-green-700">Reopened</span>
+                      ) : (
+                        <button
+                          onClick={() => handleReopen(entry)}
+                          disabled={busyId === entry.reviewId}
+                          className="text-blue-600 hover:underline disabled:opacity-50"
+                        >
+                          Reopen
+                        </button>
+                      )
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,377 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { LayoutTemplate, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+import type { ReviewTemplateSummary } from '@/lib/review-templates'
+import { ReviewSection, SectionFormat, SECTION_FORMAT_LABELS, STANDARD_SECTIONS } from '@/lib/review-sections'
+
+// Rating scale fields are edited as text and validated by the API
+interface SectionForm {
+  key: string // empty for new sections; the API derives it from the title
+  title: string
+  instructions: string
+  length: string
+  format: SectionFormat
+  rated: boolean
+  ratingMin: string
+  ratingMax: string
+  ratingLabels: string // one label per value, comma separated
+}
+
+interface TemplateForm {
+  id: string | null // null when creating a template
+  name: string
+  description: string
+  sections: SectionForm[]
+}
+
+const EMPTY_SECTION: SectionForm = {
+  key: '',
+  title: '',
+  instructions: '',
+  length: '',
+  format: 'paragraphs',
+  rated: false,
+  ratingMin: '1',
+  ratingMax: '5',
+  ratingLabels: ''
+}
+
+function toSectionForm(section: ReviewSection): SectionForm {
+  return {
+    key: section.key,
+    title: section.title,
+    instructions: section.instructions,
+    length: section.length,
+    format: section.format,
+    rated: !!section.ratingScale,
+    ratingMin: String(section.ratingScale?.min ?? 1),
+    ratingMax: String(section.ratingScale?.max ?? 5),
+    ratingLabels: section.ratingScale?.labels.join(', ') ?? ''
+  }
+}
+
+function toSectionInput(section: SectionForm) {
+  return {
+    key: section.key || undefined,
+    title: section.title,
+    instructions: section.instructions,
+    length: section.length,
+    format: section.format,
+    ratingScale: section.rated
+      ? {
+          min: Number(section.ratingMin),
+          max: Number(section.ratingMax),
+          labels: section.ratingLabels.split(',').map(label => label.trim()).filter(Boolean)
+        }
+      : null
+  }
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500'
+
+export default function ReviewTemplatesAdminPage() {
+  const [templates, setTemplates] = useState<ReviewTemplateSummary[]>([])
+  const [form, setForm] = useState<TemplateForm | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch('/api/templates')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setTemplates(result.templates)
+    } catch (err) {
+      setError(`Could not load review templates: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  const startNew = () => {
+    setError(null)
+    setForm({ id: null, name: '', description: '', sections: STANDARD_SECTIONS.map(toSectionForm) })
+  }
+
+  const startEdit = (template: ReviewTemplateSummary) => {
+    setError(null)
+    setForm({
+      id: template.id,
+      name: template.name,
+      description: template.description || '',
+      sections: template.latest.sections.map(toSectionForm)
+    })
+  }
+
+  const updateSection = (index: number, changes: Partial<SectionForm>) => {
+    if (!form) return
+    setForm({ ...form, sections: form.sections.map((s, i) => i === index ? { ...s, ...changes } : s) })
+  }
+
+  const moveSection = (index: number, offset: number) => {
+    if (!form) return
+    const sections = [...form.sections]
+    const [section] = sections.splice(index, 1)
+    sections.splice(index + offset, 0, section)
+    setForm({ ...form, sections })
+  }
+
+  const removeSection = (index: number) => {
+    if (!form) return
+    setForm({ ...form, sections: form.sections.filter((_, i) => i !== index) })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setBusyId('form')
+    setError(null)
+    try {
+      const response = await fetch(form.id ? `/api/templates/${form.id}` : '/api/templates', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description,
+          sections: form.sections.map(toSectionInput)
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setForm(null)
+      await loadTemplates()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleMakeDefault = async (template: ReviewTemplateSummary) => {
+    setBusyId(template.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/templates/${template.id}/default`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setTemplates(result.templates)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <div className="sonance-card p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="sonance-title text-lg flex items-center">
+            <LayoutTemplate className="h-5 w-5 mr-2" />
+            Review Templates
+          </h2>
+          <button onClick={startNew} className="inline-flex items-center px-3 py-2 text-sm sonance-button-primary rounded-md">
+            <Plus className="h-4 w-4 mr-1" />
+            New template
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-gray-500">No templates yet. Reviews use the built-in standard template.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Template</th>
+                <th className="py-2 font-medium">Sections</th>
+                <th className="py-2 font-medium">Version</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(template => (
+                <tr key={template.id} className="border-b border-gray-100">
+                  <td className="py-3">
+                    <span className="font-medium text-gray-800">{template.name}</span>
+                    {template.is_default && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">Default</span>
+                    )}
+                    {template.description && <p className="text-xs text-gray-500">{template.description}</p>}
+                  </td>
+                  <td className="py-3 text-gray-600">{template.latest.sections.map(s => s.title).join(', ')}</td>
+                  <td className="py-3 text-gray-600">v{template.latest.version}</td>
+                  <td className="py-3 text-right space-x-3">
+                    <button onClick={() => startEdit(template)} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                    {!template.is_default && (
+                      <button
+                        onClick={() => handleMakeDefault(template)}
+                        disabled={busyId === template.id}
+                        className="text-gray-600 hover:underline disabled:opacity-50"
+                      >
+                        Make default
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={handleSave} className="sonance-card p-6 space-y-4">
+          <h3 className="font-medium text-gray-800">
+            {form.id ? `Edit ${form.name}` : 'New template'}
+          </h3>
+          {form.id && (
+            <p className="text-xs text-gray-500">
+              Saving creates a new version. Reviews already generated keep the version they were written with.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Name, e.g. Engineering review"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Description (optional)"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          {form.sections.map((section, index) => (
+            <div key={index} className="border border-gray-200 rounded-md p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">
+                  Section {index + 1}
+                  {section.key && <span className="ml-2 text-xs text-gray-400">{section.key}</span>}
+                </span>
+                <div className="flex items-center space-x-2 text-gray-500">
+                  <button type="button" onClick={() => moveSection(index, -1)} disabled={index === 0} className="hover:text-blue-600 disabled:opacity-30">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === form.sections.length - 1}
+                    className="hover:text-blue-600 disabled:opacity-30"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => removeSection(index)} className="hover:text-red-600">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input
+                  type="text"
+                  placeholder="Title"
+                  value={section.title}
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  placeholder="Length, e.g. 2-3 paragraphs"
+                  value={section.length}
+                  onChange={(e) => updateSection(index, { length: e.target.value })}
+                  className={inputClass}
+                />
+                <select
+                  value={section.format}
+                  onChange={(e) => updateSection(index, { format: e.target.value as SectionFormat })}
+                  className={inputClass}
+                >
+                  {(Object.keys(SECTION_FORMAT_LABELS) as SectionFormat[]).map(format => (
+                    <option key={format} value={format}>{SECTION_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                placeholder="Instructions for the AI, e.g. The employee's greatest strengths based on the data provided"
+                value={section.instructions}
+                onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                className={`${inputClass} h-16`}
+              />
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={section.rated}
+                  onChange={(e) => updateSection(index, { rated: e.target.checked })}
+                  className="mr-2"
+                />
+                Include a rating
+              </label>
+              {section.rated && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <input
+                    type="number"
+                    placeholder="Lowest"
+                    value={section.ratingMin}
+                    onChange={(e) => updateSection(index, { ratingMin: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    placeholder="Highest"
+                    value={section.ratingMax}
+                    onChange={(e) => updateSection(index, { ratingMax: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Labels (optional), e.g. Below, Meets, Exceeds"
+                    value={section.ratingLabels}
+                    onChange={(e) => updateSection(index, { ratingLabels: e.target.value })}
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, sections: [...form.sections, { ...EMPTY_SECTION }] })}
+              className="inline-flex items-center text-sm text-blue-600 hover:underline"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add section
+            </button>
+            <div className="space-x-3">
+              <button type="button" onClick={() => setForm(null)} className="text-sm text-gray-600 hover:underline">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busyId === 'form'}
+                className="px-4 py-2 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+              >
+                {busyId === 'form' ? 'Saving...' : form.id ? 'Save new version' : 'Create template'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { getTeamOverview } from '@/lib/dashboard'
+
+// GET /api/dashboard?cycleId=... - review status of each of the manager's employees
+export async function GET(request: Request) {
+  try {
+    const cycleId = new URL(request.url).searchParams.get('cycleId')
+    if (!cycleId) {
+      return NextResponse.json({ error: 'cycleId is required' }, { status: 400 })
+    }
+
+    const { client, user } = await requireUser()
+    const team = await getTeamOverview(client, user.id, cycleId)
+    return NextResponse.json({ team })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load team overview:', error)
+    return NextResponse.json(
+      { error: 'Failed to load team overview', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
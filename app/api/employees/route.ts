@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+
+// GET /api/employees - the signed-in manager's direct reports
+export async function GET() {
+  try {
+    const { client, user } = await requireUser()
+    const { data, error } = await client
+      .from('employees')
+      .select('id, name, email, position, department, manager_id')
+      .eq('manager_id', user.id)
+      .order('name')
+
+    if (error) throw error
+    return NextResponse.json({ employees: data })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load employees:', error)
+    return NextResponse.json(
+      { error: 'Failed to load employees', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { getRequestedProvider, LLM_PROVIDER_LABELS } from '@/lib/llm'
+import { extractITPScores } from '@/lib/itp-extraction'
+import { requireUser, AuthError } from '@/lib/auth'
+import { formPaths, readUploads, UploadError } from '@/lib/uploads'
+
+// Reads ITP scores from screenshots so the manager can check them before synthesis.
+// Takes the storage paths of screenshots uploaded through /api/uploads.
+export async function POST(request: Request) {
+  try {
+    const { client, user } = await requireUser()
+    const formData = await request.formData()
+    const paths = formPaths(formData, 'screenshots')
+
+    if (paths.length === 0) {
+      return NextResponse.json({ error: 'No screenshots provided' }, { status: 400 })
+    }
+
+    const providerName = formData.get('provider') as string | null
+    const provider = getRequestedProvider(providerName)
+    if (!provider) {
+      return NextResponse.json({ error: 'Invalid provider', details: `Unknown AI provider "${providerName}"` }, { status: 400 })
+    }
+    if (!provider.isConfigured()) {
+      return NextResponse.json({ error: `${LLM_PROVIDER_LABELS[provider.name]} is not configured` }, { status: 503 })
+    }
+
+    const files = await readUploads(client, user.id, 'itp_screenshot', paths)
+    const extraction = await extractITPScores(files, provider)
+    if (!extraction) {
+      return NextResponse.json({ error: 'No supported images found (PNG, JPEG, GIF or WebP)' }, { status: 400 })
+    }
+
+    return NextResponse.json({ extraction })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('ITP extraction error:', error)
+    return NextResponse.json(
+      { error: 'Failed to extract ITP scores', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return new NextResponse(null, { status: 405 })
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { acknowledgeEmployeeReview, getEmployeeReview } from '@/lib/employee-reviews'
+
+// POST /api/my-reviews/:id/acknowledge - records that the employee received the finalized review
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client, user } = await requireUser()
+    const review = await getEmployeeReview(client, user.id, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+    if (review.acknowledgedAt) {
+      return NextResponse.json({ review })
+    }
+
+    await acknowledgeEmployeeReview(client, user.id, review)
+    return NextResponse.json({ review: await getEmployeeReview(client, user.id, params.id) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to acknowledge review:', error)
+    return NextResponse.json(
+      { error: 'Failed to acknowledge the review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
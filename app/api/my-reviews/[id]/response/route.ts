@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { addEmployeeResponse, getEmployeeReview, MAX_RESPONSE_CHARS } from '@/lib/employee-reviews'
+
+// POST /api/my-reviews/:id/response - adds the employee's written response to a finalized review
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { response } = await request.json()
+    if (typeof response !== 'string' || !response.trim()) {
+      return NextResponse.json({ error: 'response is required' }, { status: 400 })
+    }
+    if (response.length > MAX_RESPONSE_CHARS) {
+      return NextResponse.json(
+        { error: 'Response too long', details: `Responses can be up to ${MAX_RESPONSE_CHARS} characters` },
+        { status: 400 }
+      )
+    }
+
+    const { client, user } = await requireUser()
+    const review = await getEmployeeReview(client, user.id, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+
+    await addEmployeeResponse(client, user.id, review, response.trim())
+    return NextResponse.json({ review: await getEmployeeReview(client, user.id, params.id) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to save review response:', error)
+    return NextResponse.json(
+      { error: 'Failed to save your response', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { getEmployeeReviews } from '@/lib/employee-reviews'
+
+// GET /api/my-reviews - the signed-in employee's finalized reviews, read-only, with their
+// responses and acknowledgement
+export async function GET() {
+  try {
+    const { client, user } = await requireUser()
+    const reviews = await getEmployeeReviews(client, user.id)
+    return NextResponse.json({ reviews })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load employee reviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to load your reviews', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { availableProviderNames, getDefaultProviderName, getLLMProvider, LLM_PROVIDER_LABELS } from '@/lib/llm'
+
+// GET /api/providers - AI providers available for generation, with the configured default.
+// The mock provider is never offered on the page, even where it is enabled.
+export async function GET() {
+  try {
+    const providers = availableProviderNames().filter(name => name !== 'mock').map(name => {
+      const provider = getLLMProvider(name)
+      return { name, label: LLM_PROVIDER_LABELS[name], model: provider.model, configured: provider.isConfigured() }
+    })
+    return NextResponse.json({ providers, defaultProvider: getDefaultProviderName() })
+  } catch (error) {
+    console.error('Failed to load AI providers:', error)
+    return NextResponse.json(
+      { error: 'Failed to load AI providers', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { activateReviewCycle, getReviewCycle, CycleStateError } from '@/lib/review-cycles'
+
+// POST /api/review-cycles/:id/activate - only one cycle per year can be active
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireAdmin()
+    const cycle = await getReviewCycle(client, params.id)
+    if (!cycle) {
+      return NextResponse.json({ error: 'Review cycle not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ cycle: await activateReviewCycle(client, cycle) })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to activate review cycle:', error)
+    return NextResponse.json(
+      { error: 'Failed to activate review cycle', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { closeReviewCycle, getReviewCycle, CycleStateError } from '@/lib/review-cycles'
+
+// POST /api/review-cycles/:id/close - locks the cycle's reviews and reports those not finalized
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireAdmin()
+    const cycle = await getReviewCycle(client, params.id)
+    if (!cycle) {
+      return NextResponse.json({ error: 'Review cycle not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(await closeReviewCycle(client, cycle))
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to close review cycle:', error)
+    return NextResponse.json(
+      { error: 'Failed to close review cycle', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
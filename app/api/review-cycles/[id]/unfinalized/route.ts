@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { getUnfinalizedReviews } from '@/lib/review-cycles'
+
+// GET /api/review-cycles/:id/unfinalized - employees without a finalized review in the cycle
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireAdmin()
+    const unfinalized = await getUnfinalizedReviews(client, params.id)
+    return NextResponse.json({ unfinalized })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load unfinalized reviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to load unfinalized reviews', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, requireUser, AuthError } from '@/lib/auth'
+import { createReviewCycle, validateCycleInput } from '@/lib/review-cycles'
+
+// GET /api/review-cycles?status=active
+export async function GET(request: Request) {
+  try {
+    const status = new URL(request.url).searchParams.get('status')
+
+    const { client } = await requireUser()
+    let query = client
+      .from('review_cycles')
+      .select('*')
+      .order('start_date', { ascending: false })
+    if (status) query = query.eq('status', status)
+
+    const { data, error } = await query
+    if (error) throw error
+    return NextResponse.json({ cycles: data })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load review cycles:', error)
+    return NextResponse.json(
+      { error: 'Failed to load review cycles', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/review-cycles - creates a draft cycle (admins only)
+export async function POST(request: Request) {
+  try {
+    const { client, user } = await requireAdmin()
+    const { input, errors } = validateCycleInput(await request.json())
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid review cycle', details: errors.join('; ') }, { status: 400 })
+    }
+
+    const cycle = await createReviewCycle(client, user.id, input)
+    return NextResponse.json({ cycle }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to create review cycle:', error)
+    return NextResponse.json(
+      { error: 'Failed to create review cycle', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
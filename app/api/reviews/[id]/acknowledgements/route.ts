@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { assertReviewEditable, CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import { getReviewById, updateReviewById } from '@/lib/reviews'
+import { currentSections } from '@/lib/review-sections'
+import { getReviewTemplate } from '@/lib/review-templates'
+import { lintReview } from '@/lib/review-lint'
+import { currentSnapshot, recordReviewHistory } from '@/lib/review-history'
+
+// POST /api/reviews/:id/acknowledgements - records that the manager reviewed high-severity
+// bias and tone findings, which unblocks finalization
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { findingIds } = await request.json()
+    if (!Array.isArray(findingIds) || findingIds.length === 0) {
+      return NextResponse.json({ error: 'findingIds is required' }, { status: 400 })
+    }
+
+    const { client, user } = await requireUser()
+    const review = await getReviewById(client, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+    await assertReviewEditable(client, review.review_cycle_id, review)
+
+    // Only findings in the review's current text can be acknowledged
+    const template = await getReviewTemplate(client, review)
+    const findings = lintReview(currentSections(review, template.sections), template.sections, review.section_evidence)
+      .filter(f => f.severity === 'high' && findingIds.includes(f.id))
+    const unknown = findingIds.filter((id: unknown) => !findings.some(f => f.id === id))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid findings', details: `Not a current high-severity finding: ${unknown.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const newIds = findingIds.filter((id: string) => !review.acknowledged_findings.includes(id))
+    if (newIds.length === 0) {
+      return NextResponse.json({ review })
+    }
+
+    const updated = await updateReviewById(client, review.id, {
+      acknowledged_findings: [...review.acknowledged_findings, ...newIds]
+    })
+    await recordReviewHistory(client, review.id, user.id, 'acknowledged', {
+      fields: {},
+      snapshot: currentSnapshot(updated),
+      acknowledgedFindings: findings
+        .filter(f => newIds.includes(f.id))
+        .map(f => ({ id: f.id, message: f.message, text: f.text }))
+    })
+
+    return NextResponse.json({ review: updated })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to acknowledge review findings:', error)
+    return NextResponse.json(
+      { error: 'Failed to acknowledge review findings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { getReviewExport, isExportFormat, renderReviewExport, EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from '@/lib/export'
+
+// GET /api/reviews/:id/export?format=pdf|docx&itp=true - formatted review document for HR
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const format = searchParams.get('format')
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 })
+    }
+
+    const { client } = await requireUser()
+    const data = await getReviewExport(client, params.id, searchParams.get('itp') === 'true')
+    if (!data) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+
+    const file = await renderReviewExport(data, format)
+    return new Response(file, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${data.fileName}.${format}"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to export review:', error)
+    return NextResponse.json(
+      { error: 'Failed to export review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { getFeedback360Url } from '@/lib/review-documents'
+
+// GET /api/reviews/:id/feedback-360 - short-lived signed URL for the uploaded 360 feedback PDF
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireUser()
+    const document = await getFeedback360Url(client, params.id)
+    if (!document) {
+      return NextResponse.json({ error: 'No 360 feedback document for this review' }, { status: 404 })
+    }
+    return NextResponse.json(document, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to sign 360 feedback document URL:', error)
+    return NextResponse.json(
+      { error: 'Failed to open the 360 feedback document', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
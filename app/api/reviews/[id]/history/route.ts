@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { getReviewHistory } from '@/lib/review-history'
+
+// GET /api/reviews/:id/history - audit trail, newest first
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireUser()
+    const history = await getReviewHistory(client, params.id)
+    return NextResponse.json({ history })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load review history:', error)
+    return NextResponse.json(
+      { error: 'Failed to load review history', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
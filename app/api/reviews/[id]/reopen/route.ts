@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { getReviewById } from '@/lib/reviews'
+import { getReviewCycle, reopenReview } from '@/lib/review-cycles'
+import { currentSnapshot, recordReviewHistory } from '@/lib/review-history'
+
+// POST /api/reviews/:id/reopen - allows edits to a review in a closed cycle until it is finalized again
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client, user } = await requireAdmin()
+    const review = await getReviewById(client, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+
+    const cycle = await getReviewCycle(client, review.review_cycle_id)
+    if (cycle?.status !== 'completed') {
+      return NextResponse.json({ error: 'Only reviews in a closed cycle need reopening' }, { status: 409 })
+    }
+    if (review.reopened) {
+      return NextResponse.json({ review })
+    }
+
+    const updated = await reopenReview(client, review.id)
+    await recordReviewHistory(client, review.id, user.id, 'reopened', {
+      fields: {},
+      snapshot: currentSnapshot(updated)
+    })
+
+    return NextResponse.json({ review: updated })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to reopen review:', error)
+    return NextResponse.json(
+      { error: 'Failed to reopen review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { assertReviewEditable, CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import { getReviewById, updateReviewContent } from '@/lib/reviews'
+import { buildSectionChanges, recordReviewHistory, ReviewHistoryChanges } from '@/lib/review-history'
+
+// POST /api/reviews/:id/revert - restores the section text recorded by an earlier history entry
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { historyId } = await request.json()
+    if (!historyId) {
+      return NextResponse.json({ error: 'historyId is required' }, { status: 400 })
+    }
+
+    const { client, user } = await requireUser()
+    const review = await getReviewById(client, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+    await assertReviewEditable(client, review.review_cycle_id, review)
+
+    const { data: entry, error } = await client
+      .from('review_history')
+      .select('*')
+      .eq('id', historyId)
+      .eq('review_id', review.id)
+      .maybeSingle()
+    if (error) throw error
+
+    const snapshot = (entry?.changes as ReviewHistoryChanges | null)?.snapshot
+    if (!snapshot) {
+      return NextResponse.json({ error: 'This history entry cannot be restored' }, { status: 404 })
+    }
+
+    const changes = buildSectionChanges(review, snapshot)
+    if (!changes) {
+      return NextResponse.json({ review })
+    }
+
+    const updated = await updateReviewContent(client, review, { final_sections: { ...review.final_sections, ...snapshot } })
+    await recordReviewHistory(client, review.id, user.id, 'reverted', { ...changes, revertedFrom: historyId })
+
+    return NextResponse.json({ review: updated })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to revert review:', error)
+    return NextResponse.json(
+      { error: 'Failed to revert review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { assertReviewEditable, CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import { getReviewById, updateReviewContent, ReviewFields } from '@/lib/reviews'
+import { getReviewTemplate } from '@/lib/review-templates'
+import { buildSectionChanges, recordReviewHistory, SectionSnapshot } from '@/lib/review-history'
+
+// PUT /api/reviews/:id/sections - saves manager edits to section text (final_sections) and ratings
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { sections = {}, ratings = {} } = await request.json()
+    if (typeof sections !== 'object' || typeof ratings !== 'object') {
+      return NextResponse.json({ error: 'sections and ratings must be objects' }, { status: 400 })
+    }
+
+    const { client, user } = await requireUser()
+    const review = await getReviewById(client, params.id)
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+    }
+    await assertReviewEditable(client, review.review_cycle_id, review)
+
+    // Only the sections of the template the review was generated with can be edited
+    const template = await getReviewTemplate(client, review)
+    const updates: SectionSnapshot = {}
+    const ratingUpdates: Record<string, number> = {}
+    for (const section of template.sections) {
+      if (section.key in sections) {
+        if (typeof sections[section.key] !== 'string') {
+          return NextResponse.json({ error: 'Invalid section', details: `${section.title} must be text` }, { status: 400 })
+        }
+        updates[section.key] = sections[section.key]
+      }
+      if (section.key in ratings) {
+        const scale = section.ratingScale
+        const rating = ratings[section.key]
+        if (!scale || !Number.isInteger(rating) || rating < scale.min || rating > scale.max) {
+          return NextResponse.json({ error: 'Invalid rating', details: `${section.title} does not accept that rating` }, { status: 400 })
+        }
+        ratingUpdates[section.key] = rating
+      }
+    }
+
+    const changes = buildSectionChanges(review, updates)
+    if (!changes && Object.keys(ratingUpdates).length === 0) {
+      return NextResponse.json({ review })
+    }
+
+    const fields: ReviewFields = {}
+    if (changes) fields.final_sections = { ...review.final_sections, ...updates }
+    if (Object.keys(ratingUpdates).length > 0) fields.section_ratings = { ...review.section_ratings, ...ratingUpdates }
+
+    const updated = await updateReviewContent(client, review, fields)
+    if (changes) await recordReviewHistory(client, review.id, user.id, 'edited', changes)
+
+    return NextResponse.json({ review: updated })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to save review sections:', error)
+    return NextResponse.json(
+      { error: 'Failed to save review sections', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server'
+import type { ReviewStatus } from '@/lib/supabase'
+import { requireUser, AuthError } from '@/lib/auth'
+import { assertReviewEditable, CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import { getReview, saveReview, ReviewFields, ITP_COLUMNS, REVIEW_STATUSES } from '@/lib/reviews'
+import { isValidITPScore } from '@/lib/itp'
+import { currentSnapshot, recordReviewHistory } from '@/lib/review-history'
+import { getReviewTemplate } from '@/lib/review-templates'
+import { currentSections } from '@/lib/review-sections'
+import { lintReview, unacknowledgedFindings } from '@/lib/review-lint'
+import { storedExtractedData } from '@/lib/synthesis'
+
+// Statuses the page may request directly; the others are set by saving inputs or generating
+const MANUAL_STATUSES: ReviewStatus[] = ['reviewed', 'finalized']
+
+// GET /api/reviews?employeeId=...&cycleId=...
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams
+    const employeeId = params.get('employeeId')
+    const cycleId = params.get('cycleId')
+
+    if (!employeeId || !cycleId) {
+      return NextResponse.json({ error: 'employeeId and cycleId are required' }, { status: 400 })
+    }
+
+    const { client } = await requireUser()
+    const review = await getReview(client, employeeId, cycleId)
+    // The template the review's sections were generated with, so the page can lay them out
+    const template = review ? await getReviewTemplate(client, review) : null
+    // The scores, gaps and 360 themes the page shows with the generated review
+    const extractedData = review ? storedExtractedData(review) : null
+    return NextResponse.json({ review, template, extractedData })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load review:', error)
+    return NextResponse.json(
+      { error: 'Failed to load review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/reviews - saves review inputs and/or moves the review to a later status
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json()
+    const { employeeId, cycleId, status } = body
+
+    if (!employeeId || !cycleId) {
+      return NextResponse.json({ error: 'employeeId and cycleId are required' }, { status: 400 })
+    }
+    if (status !== undefined && !MANUAL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: `Status can only be set to ${MANUAL_STATUSES.join(' or ')}` },
+        { status: 400 }
+      )
+    }
+
+    const fields: ReviewFields = {}
+    for (const column of ITP_COLUMNS) {
+      if (!(column in body)) continue
+      if (body[column] !== null && !isValidITPScore(body[column])) {
+        return NextResponse.json({ error: 'Invalid ITP score', details: `${column} must be a whole number from 1 to 10` }, { status: 400 })
+      }
+      fields[column] = body[column]
+    }
+    if (typeof body.manager_comments === 'string') {
+      fields.manager_comments = body.manager_comments
+    }
+    if (typeof body.self_review_text === 'string' || body.self_review_text === null) {
+      fields.self_review_text = body.self_review_text
+    }
+
+    const { client, user } = await requireUser()
+    const existing = await getReview(client, employeeId, cycleId)
+    await assertReviewEditable(client, cycleId, existing)
+
+    if (status) {
+      const current = existing ? REVIEW_STATUSES.indexOf(existing.status) : -1
+      if (current < REVIEW_STATUSES.indexOf('generated')) {
+        return NextResponse.json(
+          { error: 'Review not generated yet', details: 'Generate the review before marking it reviewed or finalized' },
+          { status: 409 }
+        )
+      }
+    }
+    if (status === 'finalized' && existing) {
+      const template = await getReviewTemplate(client, existing)
+      const findings = lintReview(currentSections(existing, template.sections), template.sections, existing.section_evidence)
+      const blocking = unacknowledgedFindings(findings, existing.acknowledged_findings)
+      if (blocking.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Unacknowledged review findings',
+            details: `Acknowledge ${blocking.length} high-severity bias finding${blocking.length === 1 ? '' : 's'} before finalizing`,
+            findings: blocking
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    const review = await saveReview(client, employeeId, cycleId, fields, status)
+    if (status === 'finalized') {
+      await recordReviewHistory(client, review.id, user.id, 'finalized', {
+        fields: {},
+        snapshot: currentSnapshot(review)
+      })
+    }
+    return NextResponse.json({ review })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to save review:', error)
+    return NextResponse.json(
+      { error: 'Failed to save review', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { getRequestedProvider, LLM_PROVIDER_LABELS } from '@/lib/llm'
+import { requireUser, AuthError } from '@/lib/auth'
+import { runBulkSynthesis, MAX_BULK_EMPLOYEES } from '@/lib/bulk-synthesis'
+import { formatSSE } from '@/lib/sse'
+
+// A batch can take several minutes; MAX_BULK_EMPLOYEES and BULK_START_DEADLINE_MS keep it within
+// this, which vercel.json matches
+export const maxDuration = 300
+
+// POST /api/synthesize/bulk - generates reviews from stored inputs for several employees in a cycle.
+// Streams a "progress" event per employee status change, then "done" with the ids that succeeded, failed
+// and were skipped for lack of time.
+export async function POST(request: Request) {
+  try {
+    const auth = await requireUser()
+    const body = await request.json()
+
+    const cycleId = typeof body?.cycleId === 'string' ? body.cycleId : ''
+    const employeeIds: string[] = Array.isArray(body?.employeeIds)
+      ? Array.from(new Set<string>(body.employeeIds.filter((id: unknown) => typeof id === 'string' && id)))
+      : []
+    if (!cycleId || employeeIds.length === 0) {
+      return NextResponse.json({ error: 'cycleId and at least one employee are required' }, { status: 400 })
+    }
+    if (employeeIds.length > MAX_BULK_EMPLOYEES) {
+      return NextResponse.json({ error: `At most ${MAX_BULK_EMPLOYEES} employees can be generated at once` }, { status: 400 })
+    }
+
+    const provider = getRequestedProvider(body.provider ?? null)
+    if (!provider) {
+      return NextResponse.json({ error: 'Invalid provider', details: `Unknown AI provider "${body.provider}"` }, { status: 400 })
+    }
+    if (!provider.isConfigured()) {
+      return NextResponse.json({ error: `${LLM_PROVIDER_LABELS[provider.name]} is not configured` }, { status: 400 })
+    }
+
+    console.log(`Bulk generation: ${employeeIds.length} employees with ${provider.name}`)
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatSSE(event, data)))
+        try {
+          const summary = await runBulkSynthesis(auth, cycleId, employeeIds, provider, progress => send('progress', progress))
+          send('done', summary)
+        } catch (error) {
+          console.error('Bulk generation failed:', error)
+          send('error', { error: 'Bulk generation failed', details: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+          controller.close()
+        }
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+      }
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to start bulk generation:', error)
+    return NextResponse.json(
+      { error: 'Failed to start bulk generation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
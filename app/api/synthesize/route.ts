@@ -1,21 +1,42 @@
 import { NextResponse } from 'next/server'
+import { getLLMProvider, modelIdentifier, LLMProviderError, LLM_PROVIDER_LABELS } from '@/lib/llm'
+import { PDFExtractionError } from '@/lib/pdf-utils'
+import { requireUser, AuthError } from '@/lib/auth'
+import { UploadError } from '@/lib/uploads'
+import { CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import type { Review } from '@/lib/supabase'
+import { ReviewSectionRatings, ReviewSectionText } from '@/lib/review-sections'
+import type { ResolvedTemplate } from '@/lib/review-templates'
+import type { ReviewEvidence } from '@/lib/review-evidence'
+import type { GoalProgress } from '@/lib/goal-progress'
+import { extractPartialReview, toSectionText, ReviewContent, ReviewOutputError } from '@/lib/review-output'
+import { formatSSE } from '@/lib/sse'
+import {
+  gatherSynthesisInputs,
+  generateReviewContent,
+  persistReview,
+  saveGeneratedReview,
+  SynthesisInputError,
+  SynthesisInputs,
+  DataUsed,
+  ExtractedData
+} from '@/lib/synthesis'
 
 interface SynthesisResponse {
-  strengths: string
-  developmentFeedback: string
-  goalsNextYear: string
-  overallAssessment: string
-  dataUsed: {
-    itpScores: boolean
-    feedback360: boolean
-    selfReview: boolean
-    managerComments: boolean
-  }
-  extractedData: any
+  sections: ReviewSectionText
+  ratings: ReviewSectionRatings
+  evidence: ReviewEvidence
+  goalProgress: GoalProgress[]
+  template: ResolvedTemplate
+  dataUsed: DataUsed
+  extractedData: ExtractedData
+  review?: Review | null
+  saveError?: string
 }
 
 export async function POST(request: Request) {
   console.log('=== API CALL START ===')
+  const startedAt = Date.now()
   try {
     const contentType = request.headers.get('content-type')
     console.log('Content-Type:', contentType)
@@ -26,7 +47,8 @@ export async function POST(request: Request) {
       return NextResponse.json({ 
         status: 'API is working', 
         timestamp: new Date().toISOString(),
-        apiKey: !!process.env.ANTHROPIC_API_KEY ? 'present' : 'missing'
+        provider: getLLMProvider().name,
+        apiKey: getLLMProvider().isConfigured() ? 'present' : 'missing'
       })
     }
     
@@ -34,143 +56,30 @@ export async function POST(request: Request) {
     const formData = await request.formData()
     console.log('Form data keys:', Array.from(formData.keys()))
     
-    const managerComments = formData.get('managerComments') as string || ''
-    console.log('Manager comments:', managerComments ? `"${managerComments.substring(0, 50)}..."` : 'empty')
-    
-    const itpEmployeeFiles = formData.getAll('itpEmployeeScreenshots')
-    const itpManagerFiles = formData.getAll('itpManagerScreenshots')
-    const feedback360File = formData.get('feedback360')
-    const selfReviewFiles = formData.getAll('selfReviewScreenshots')
-    
-    console.log('Files:', {
-      itpEmployee: itpEmployeeFiles.length,
-      itpManager: itpManagerFiles.length,
-      feedback360: !!feedback360File,
-      selfReview: selfReviewFiles.length
-    })
-
-    const dataUsed = {
-      itpScores: itpEmployeeFiles.length > 0 || itpManagerFiles.length > 0,
-      feedback360: !!feedback360File,
-      selfReview: selfReviewFiles.length > 0,
-      managerComments: managerComments.trim().length > 0
-    }
-
-    const mockExtractedData = {
-      itpEmployeeScores: itpEmployeeFiles.length > 0 ? { humble: 8, hungry: 7, smart: 9 } : null,
-      itpManagerScores: itpManagerFiles.length > 0 ? { humble: 7, hungry: 8, smart: 8 } : null,
-      feedback360Summary: feedback360File ? "Strategic thinking, cross-functional collaboration, technical expertise..." : null,
-      selfReviewSummary: selfReviewFiles.length > 0 ? "Focused on continuous learning, project leadership, team development..." : null
-    }
-
-    // Build context for Claude
-    const dataSources: string[] = []
-    if (mockExtractedData.itpEmployeeScores) {
-      dataSources.push(`ITP Employee Scores: Humble ${mockExtractedData.itpEmployeeScores.humble}/10, Hungry ${mockExtractedData.itpEmployeeScores.hungry}/10, Smart ${mockExtractedData.itpEmployeeScores.smart}/10`)
-    }
-    if (mockExtractedData.itpManagerScores) {
-      dataSources.push(`ITP Manager Scores: Humble ${mockExtractedData.itpManagerScores.humble}/10, Hungry ${mockExtractedData.itpManagerScores.hungry}/10, Smart ${mockExtractedData.itpManagerScores.smart}/10`)
-    }
-    if (mockExtractedData.feedback360Summary) {
-      dataSources.push(`360 Feedback: ${mockExtractedData.feedback360Summary}`)
-    }
-    if (mockExtractedData.selfReviewSummary) {
-      dataSources.push(`Self Review: ${mockExtractedData.selfReviewSummary}`)
-    }
-    if (managerComments.trim()) {
-      dataSources.push(`Manager Comments: ${managerComments}`)
-    }
-
-    const dataContext = dataSources.length > 0 ? dataSources.join('\n\n') : 'No data provided'
-
-    const prompt = `You are a professional HR performance review writer. Generate a performance review based on the following data.
-
-DATA SOURCES:
-${dataContext}
-
-Return ONLY a valid JSON object with exactly these 4 keys (no markdown, no code fences, just raw JSON):
-{
-  "strengths": "2-3 paragraphs about the employee's greatest strengths based on the data provided",
-  "developmentFeedback": "2-3 paragraphs about areas for development and constructive feedback",
-  "goalsNextYear": "4-5 numbered goals for the next year with brief descriptions",
-  "overallAssessment": "1-2 paragraphs with an overall assessment summary including data confidence level"
-}
-
-Make the content specific to the data provided. Be professional and constructive.`
-
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    console.log('API key status:', apiKey ? `present (${apiKey.substring(0, 10)}...)` : 'missing')
-    
-    if (!apiKey) {
-      console.error('ANTHROPIC_API_KEY is not set')
-      return NextResponse.json({
-        ...generateFallback(dataUsed, mockExtractedData, managerComments),
-        dataUsed,
-        extractedData: mockExtractedData,
-        error: 'API key not configured'
-      })
+    const inputs = await gatherSynthesisInputs(formData, await requireUser())
+    if (!inputs.provider.isConfigured()) {
+      console.error(`${inputs.provider.name} provider is not configured`)
+      return NextResponse.json(await fallbackResponse(inputs, `${LLM_PROVIDER_LABELS[inputs.provider.name]} is not configured`))
     }
-    
-    console.log('Making Claude API call...')
 
-    const claudeResponse = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    })
+    console.log(`Streaming ${modelIdentifier(inputs.provider)} response...`)
+    return streamSynthesis(inputs, startedAt)
 
-    if (!claudeResponse.ok) {
-      const errText = await claudeResponse.text()
-      console.error('Claude API error:', claudeResponse.status, errText)
-      return NextResponse.json({
-        ...generateFallback(dataUsed, mockExtractedData, managerComments),
-        dataUsed,
-        extractedData: mockExtractedData,
-        error: `Claude API error: ${claudeResponse.status}`
-      })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError || error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
-
-    const result = await claudeResponse.json()
-    const text = result.content?.[0]?.text || ''
-
-    // Parse the JSON response from Claude
-    let reviewContent: any
-    try {
-      // Strip any markdown code fences if present
-      const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
-      reviewContent = JSON.parse(cleaned)
-    } catch (parseError) {
-      console.error('Failed to parse Claude JSON response:', text.substring(0, 200))
-      // Use the raw text as the overall assessment if JSON parsing fails
-      reviewContent = {
-        strengths: text.substring(0, Math.floor(text.length / 4)),
-        developmentFeedback: text.substring(Math.floor(text.length / 4), Math.floor(text.length / 2)),
-        goalsNextYear: text.substring(Math.floor(text.length / 2), Math.floor(text.length * 3 / 4)),
-        overallAssessment: text.substring(Math.floor(text.length * 3 / 4))
-      }
+    if (error instanceof SynthesisInputError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
     }
-
-    const response: SynthesisResponse = {
-      strengths: reviewContent.strengths || 'No strengths data generated.',
-      developmentFeedback: reviewContent.developmentFeedback || 'No development feedback generated.',
-      goalsNextYear: reviewContent.goalsNextYear || 'No goals generated.',
-      overallAssessment: reviewContent.overallAssessment || 'No overall assessment generated.',
-      dataUsed,
-      extractedData: mockExtractedData
+    if (error instanceof PDFExtractionError) {
+      console.error('360 feedback extraction failed:', error.code)
+      return NextResponse.json(
+        { error: 'Failed to read 360 feedback', details: error.message, code: error.code },
+        { status: 422 }
+      )
     }
 
-    console.log('=== SUCCESS - Returning response ===')
-    return NextResponse.json(response)
-
-  } catch (error) {
     console.error('=== SYNTHESIS ERROR ===')
     console.error('Error type:', error?.constructor?.name)
     console.error('Error message:', error instanceof Error ? error.message : String(error))
@@ -184,16 +93,109 @@ Make the content specific to the data provided. Be professional and constructive
   }
 }
 
-function generateFallback(dataUsed: any, extractedData: any, managerComments: string) {
-  const count = Object.values(dataUsed).filter(Boolean).length
+// Streams each section's text as it is generated, then a final "done" event carrying the
+// complete response once it has been validated and saved
+function streamSynthesis(inputs: SynthesisInputs, startedAt: number) {
+  const encoder = new TextEncoder()
+  const sectionKeys = inputs.template.sections.map(s => s.key)
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatSSE(event, data)))
+      const sent: Partial<ReviewSectionText> = {}
+
+      try {
+        let content: ReviewContent
+        try {
+          content = await generateReviewContent(inputs, textSoFar => {
+            const sections = extractPartialReview(textSoFar, inputs.template.sections)
+            sectionKeys.forEach(key => {
+              if (sections[key] === undefined) return
+              const value = inputs.redactor.rehydrate(sections[key])
+              if (value === sent[key]) return
+              sent[key] = value
+              send('section', { key, text: value })
+            })
+          })
+        } catch (providerError) {
+          if (!(providerError instanceof LLMProviderError)) throw providerError
+          send('done', await fallbackResponse(inputs, providerError.message))
+          return
+        }
+
+        send('done', await completeSynthesis(inputs, content, startedAt))
+        console.log('=== SUCCESS - Stream complete ===')
+      } catch (error) {
+        console.error('Synthesis stream failed:', error)
+        if (error instanceof ReviewOutputError) {
+          // Keep the inputs so the manager can retry without re-entering them
+          const saved = await persistReview(inputs, inputs.inputFields)
+          send('error', {
+            error: error.message,
+            details: error.errors.join('; '),
+            code: error.code,
+            errors: error.errors,
+            attempts: error.attempts,
+            review: saved.review
+          })
+        } else {
+          send('error', { error: 'Failed to synthesize review', details: error instanceof Error ? error.message : 'Unknown error' })
+        }
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+async function completeSynthesis(inputs: SynthesisInputs, content: ReviewContent, startedAt: number): Promise<SynthesisResponse> {
+  return {
+    sections: toSectionText(content),
+    ratings: content.ratings,
+    evidence: content.evidence,
+    goalProgress: content.goalProgress,
+    template: inputs.template,
+    dataUsed: inputs.dataUsed,
+    extractedData: inputs.extractedData,
+    ...(await saveGeneratedReview(inputs, content, startedAt))
+  }
+}
+
+// Inputs are still saved when the review text can't be generated
+async function fallbackResponse(inputs: SynthesisInputs, error: string) {
   return {
-    strengths: `Based on ${count} data source(s): ${managerComments ? managerComments.substring(0, 200) : 'No specific data provided.'}`,
-    developmentFeedback: 'Development areas will be identified with more comprehensive data input.',
-    goalsNextYear: '1. Continue professional development\n2. Strengthen collaboration skills\n3. Expand technical expertise',
-    overallAssessment: `Assessment based on ${count} of 4 possible data sources. Provide additional inputs for a more comprehensive review.`
+    sections: generateFallback(inputs),
+    ratings: {},
+    evidence: {},
+    goalProgress: [],
+    template: inputs.template,
+    dataUsed: inputs.dataUsed,
+    extractedData: inputs.extractedData,
+    ...(await persistReview(inputs, inputs.inputFields)),
+    error
   }
 }
 
+// Placeholder text for each of the template's sections
+function generateFallback(inputs: SynthesisInputs): ReviewSectionText {
+  const count = Object.values(inputs.dataUsed).filter(Boolean).length
+  const sections: ReviewSectionText = {}
+  inputs.template.sections.forEach((section, index) => {
+    sections[section.key] = index === 0
+      ? `Based on ${count} data source(s): ${inputs.managerComments ? inputs.managerComments.substring(0, 200) : 'No specific data provided.'}`
+      : `${section.title} will be written with more comprehensive data input (${count} of 4 possible data sources provided).`
+  })
+  return sections
+}
+
 export async function GET() {
   return new NextResponse(null, { status: 405 })
 }
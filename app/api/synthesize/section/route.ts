@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server'
+import { getRequestedProvider, stripCodeFences, LLMProviderError, LLM_PROVIDER_LABELS } from '@/lib/llm'
+import { PDFExtractionError } from '@/lib/pdf-utils'
+import { requireUser, AuthError, AuthContext } from '@/lib/auth'
+import { UploadError } from '@/lib/uploads'
+import { assertReviewEditable, CycleStateError, ReviewLockedError } from '@/lib/review-cycles'
+import { getReview, updateReviewContent } from '@/lib/reviews'
+import { getReviewSection, hasGeneratedSections, ReviewSectionText } from '@/lib/review-sections'
+import { buildSectionChanges, recordReviewHistory } from '@/lib/review-history'
+import { gatherSynthesisInputs, buildSectionPrompt, storedSynthesisInputs, SynthesisInputError } from '@/lib/synthesis'
+
+// A saved review is rewritten from its stored inputs and extracted data, so rewriting one section
+// doesn't read the uploads again or repeat the ITP extraction and 360 theming. A review that isn't
+// saved sends its inputs as for a full generation.
+async function sectionInputs(formData: FormData, auth: AuthContext) {
+  const employeeId = formData.get('employeeId') as string || ''
+  const reviewCycleId = formData.get('reviewCycleId') as string || ''
+  const review = employeeId && reviewCycleId ? await getReview(auth.client, employeeId, reviewCycleId) : null
+  if (!review || !hasGeneratedSections(review)) {
+    return { inputs: await gatherSynthesisInputs(formData, auth), stored: false }
+  }
+
+  const providerName = formData.get('provider') as string | null
+  const provider = getRequestedProvider(providerName)
+  if (!provider) {
+    throw new SynthesisInputError('Invalid provider', `Unknown AI provider "${providerName}"`)
+  }
+  await assertReviewEditable(auth.client, reviewCycleId, review)
+  return { inputs: await storedSynthesisInputs(auth, review, provider, { includePriorReview: true }), stored: true }
+}
+
+// POST /api/synthesize/section - rewrites one section, optionally following manager guidance.
+// Takes section, currentSections (JSON) and instruction, plus employeeId, reviewCycleId and provider
+// for a saved review, or the same form fields as /api/synthesize for one that isn't saved.
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+    const sectionKey = formData.get('section') as string || ''
+    const instruction = formData.get('instruction') as string || ''
+
+    let currentSections: Partial<ReviewSectionText> = {}
+    try {
+      currentSections = JSON.parse(formData.get('currentSections') as string || '{}')
+    } catch {
+      return NextResponse.json({ error: 'Invalid currentSections', details: 'currentSections must be JSON' }, { status: 400 })
+    }
+
+    const { inputs, stored } = await sectionInputs(formData, await requireUser())
+    if (!inputs.provider.isConfigured()) {
+      return NextResponse.json({ error: `${LLM_PROVIDER_LABELS[inputs.provider.name]} is not configured` }, { status: 503 })
+    }
+
+    if (!getReviewSection(inputs.template.sections, sectionKey)) {
+      return NextResponse.json({ error: 'Invalid section', details: `Unknown section "${sectionKey}"` }, { status: 400 })
+    }
+
+    let text: string
+    try {
+      const output = await inputs.provider.complete(buildSectionPrompt(inputs, sectionKey, currentSections, instruction))
+      text = inputs.redactor.rehydrate(stripCodeFences(output)).trim()
+    } catch (providerError) {
+      if (!(providerError instanceof LLMProviderError)) throw providerError
+      return NextResponse.json({ error: 'Failed to regenerate section', details: providerError.message }, { status: 502 })
+    }
+    if (!text) {
+      return NextResponse.json({ error: 'Failed to regenerate section', details: 'The AI returned an empty section' }, { status: 502 })
+    }
+
+    const review = inputs.existingReview
+    if (!inputs.reviewClient || !review) {
+      return NextResponse.json({ section: sectionKey, text })
+    }
+
+    // The new text becomes this section's AI draft; edits to the other sections are kept.
+    // The section's evidence and acknowledged findings were for the old text, so they are dropped.
+    const changes = buildSectionChanges(review, { [sectionKey]: text })
+    const finalSections = { ...review.final_sections }
+    delete finalSections[sectionKey]
+    const evidence = { ...review.section_evidence }
+    delete evidence[sectionKey]
+    const updated = await updateReviewContent(inputs.reviewClient, review, {
+      // 360 themes worked out for a review saved without them, so later rewrites reuse them
+      ...(stored ? inputs.inputFields : {}),
+      generated_sections: { ...review.generated_sections, [sectionKey]: text },
+      final_sections: finalSections,
+      section_evidence: evidence,
+      acknowledged_findings: review.acknowledged_findings.filter(id => !id.startsWith(`${sectionKey}:`))
+    })
+    if (changes) {
+      try {
+        await recordReviewHistory(inputs.reviewClient, review.id, inputs.userId, 'regenerated', changes)
+      } catch (historyError) {
+        console.error('Failed to record review history:', historyError)
+      }
+    }
+
+    return NextResponse.json({ section: sectionKey, text, review: updated })
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof ReviewLockedError || error instanceof CycleStateError || error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SynthesisInputError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
+    if (error instanceof PDFExtractionError) {
+      return NextResponse.json(
+        { error: 'Failed to read 360 feedback', details: error.message, code: error.code },
+        { status: 422 }
+      )
+    }
+
+    console.error('Section regeneration failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to regenerate section', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
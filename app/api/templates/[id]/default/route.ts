@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { getTemplates, setDefaultTemplate } from '@/lib/review-templates'
+
+// POST /api/templates/:id/default - makes the template the default for new reviews (admins only)
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireAdmin()
+    const templates = await getTemplates(client)
+    if (!templates.some(template => template.id === params.id)) {
+      return NextResponse.json({ error: 'Review template not found' }, { status: 404 })
+    }
+
+    await setDefaultTemplate(client, params.id)
+    return NextResponse.json({ templates: await getTemplates(client) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to set the default review template:', error)
+    return NextResponse.json(
+      { error: 'Failed to set the default review template', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, AuthError } from '@/lib/auth'
+import { updateTemplate, validateTemplateInput } from '@/lib/review-templates'
+
+// PUT /api/templates/:id - saves the template as a new version (admins only)
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const { client } = await requireAdmin()
+    const { input, errors } = validateTemplateInput(await request.json())
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid review template', details: errors.join('; ') }, { status: 400 })
+    }
+
+    const template = await updateTemplate(client, params.id, input)
+    if (!template) {
+      return NextResponse.json({ error: 'Review template not found' }, { status: 404 })
+    }
+    return NextResponse.json({ template })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to update review template:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review template', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin, requireUser, AuthError } from '@/lib/auth'
+import { createTemplate, getTemplates, validateTemplateInput } from '@/lib/review-templates'
+
+// GET /api/templates - every template with its latest version
+export async function GET() {
+  try {
+    const { client } = await requireUser()
+    return NextResponse.json({ templates: await getTemplates(client) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to load review templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to load review templates', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/templates - creates a template at version 1 (admins only)
+export async function POST(request: Request) {
+  try {
+    const { client } = await requireAdmin()
+    const { input, errors } = validateTemplateInput(await request.json())
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid review template', details: errors.join('; ') }, { status: 400 })
+    }
+
+    const template = await createTemplate(client, input)
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to create review template:', error)
+    return NextResponse.json(
+      { error: 'Failed to create review template', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
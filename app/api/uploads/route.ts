@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { requireUser, AuthError } from '@/lib/auth'
+import { createUploadUrl, isUploadKind, UploadError } from '@/lib/uploads'
+
+// POST /api/uploads - issues a signed URL for uploading one input file straight to storage.
+// Takes { kind, fileName, contentType, size }; returns the storage path to send to the synthesis
+// endpoints and the token to upload with.
+export async function POST(request: Request) {
+  try {
+    const { kind, fileName, contentType, size } = await request.json()
+    if (!isUploadKind(kind)) {
+      return NextResponse.json({ error: 'Invalid upload kind', details: `Unknown upload kind "${kind}"` }, { status: 400 })
+    }
+    if (typeof fileName !== 'string' || typeof contentType !== 'string' || typeof size !== 'number') {
+      return NextResponse.json({ error: 'fileName, contentType and size are required' }, { status: 400 })
+    }
+
+    const { client, user } = await requireUser()
+    const upload = await createUploadUrl(client, user.id, kind, { name: fileName, type: contentType, size })
+    return NextResponse.json(upload)
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Failed to create upload URL:', error)
+    return NextResponse.json(
+      { error: 'Failed to prepare upload', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
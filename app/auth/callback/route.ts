@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { ensureUserProfile, getRouteSupabase } from '@/lib/auth'
+
+// Only same-site paths, so the link can't be used to redirect elsewhere. "//host" and "/\host"
+// are protocol-relative and would leave the site.
+function safeRedirectPath(next: string | null, origin: string) {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return '/'
+  const resolved = new URL(next, origin)
+  return resolved.origin === origin ? `${resolved.pathname}${resolved.search}${resolved.hash}` : '/'
+}
+
+// GET /auth/callback?code=...&next=/ - completes magic-link sign-in
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const code = url.searchParams.get('code')
+  const next = safeRedirectPath(url.searchParams.get('next'), url.origin)
+
+  if (!code) {
+    return NextResponse.redirect(new URL('/login?error=missing_code', url.origin))
+  }
+
+  try {
+    const client = getRouteSupabase()
+    const { data, error } = await client.auth.exchangeCodeForSession(code)
+    if (error) throw error
+
+    await ensureUserProfile(client, data.user)
+    return NextResponse.redirect(new URL(next, url.origin))
+  } catch (error) {
+    console.error('Sign-in callback failed:', error)
+    return NextResponse.redirect(new URL('/login?error=sign_in_failed', url.origin))
+  }
+}
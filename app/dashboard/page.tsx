@@ -0,0 +1,360 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Sparkles, Users } from 'lucide-react'
+import type { ReviewCycle, ReviewStatus } from '@/lib/supabase'
+import type { TeamMemberReview } from '@/lib/dashboard'
+import type { DataUsed } from '@/lib/synthesis'
+import type { BulkItemStatus, BulkProgress, BulkSummary } from '@/lib/bulk-synthesis'
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS } from '@/lib/reviews'
+import { isReviewLocked } from '@/lib/review-cycles'
+import { readSSE } from '@/lib/sse'
+
+type StatusFilter = ReviewStatus | 'not_started' | ''
+type SortKey = 'name' | 'status' | 'department' | 'updated'
+
+const INPUT_LABELS: Record<keyof DataUsed, string> = {
+  itpScores: 'ITP',
+  feedback360: '360',
+  selfReview: 'Self',
+  managerComments: 'Comments'
+}
+
+// Not started sorts before every saved status
+const statusRank = (member: TeamMemberReview) =>
+  member.review ? REVIEW_STATUSES.indexOf(member.review.status) : -1
+
+const COMPARATORS: Record<SortKey, (a: TeamMemberReview, b: TeamMemberReview) => number> = {
+  name: (a, b) => a.employee.name.localeCompare(b.employee.name),
+  status: (a, b) => statusRank(a) - statusRank(b),
+  department: (a, b) => (a.employee.department || '').localeCompare(b.employee.department || ''),
+  updated: (a, b) => (b.review?.updated_at || '').localeCompare(a.review?.updated_at || '')
+}
+
+const BULK_STATUS_LABELS: Record<BulkItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Generating...',
+  waiting: 'Rate limited, waiting...',
+  succeeded: 'Generated',
+  failed: 'Failed',
+  skipped: 'Not started, out of time'
+}
+
+// Bulk generation works from stored inputs, so only saved reviews that can still change qualify
+function canBulkGenerate(member: TeamMemberReview, cycle: ReviewCycle | undefined) {
+  return !!member.review && !!cycle &&
+    Object.values(member.inputs).some(Boolean) &&
+    member.review.status !== 'finalized' &&
+    !isReviewLocked(cycle, member.review)
+}
+
+function actionLabel(member: TeamMemberReview) {
+  if (!member.review) return 'Start'
+  return member.review.status === 'finalized' ? 'Open' : 'Continue'
+}
+
+export default function DashboardPage() {
+  const [cycles, setCycles] = useState<ReviewCycle[]>([])
+  const [cycleId, setCycleId] = useState('')
+  const [team, setTeam] = useState<TeamMemberReview[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('')
+  const [departmentFilter, setDepartmentFilter] = useState('')
+  const [sortKey, setSortKey] = useState<SortKey>('name')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkProgress, setBulkProgress] = useState<Record<string, BulkProgress>>({})
+  const [unfinishedIds, setUnfinishedIds] = useState<string[]>([])
+  const [isBulkRunning, setIsBulkRunning] = useState(false)
+
+  // Defaults to the active cycle, falling back to the most recent one
+  useEffect(() => {
+    const loadCycles = async () => {
+      try {
+        const response = await fetch('/api/review-cycles')
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        setCycles(result.cycles)
+        const active = result.cycles.find((cycle: ReviewCycle) => cycle.status === 'active')
+        setCycleId((active || result.cycles[0])?.id || '')
+      } catch (err) {
+        setError(`Could not load review cycles: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+    loadCycles()
+  }, [])
+
+  useEffect(() => {
+    if (!cycleId) return
+
+    const loadTeam = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/dashboard?cycleId=${cycleId}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        setTeam(result.team)
+        setError(null)
+        setSelectedIds([])
+        setBulkProgress({})
+        setUnfinishedIds([])
+      } catch (err) {
+        setError(`Could not load your team: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+      setIsLoading(false)
+    }
+    loadTeam()
+  }, [cycleId])
+
+  const departments = useMemo(() => {
+    const names = new Set<string>()
+    team.forEach(member => { if (member.employee.department) names.add(member.employee.department) })
+    return Array.from(names).sort()
+  }, [team])
+
+  const rows = useMemo(() => team
+    .filter(member => !statusFilter ||
+      (statusFilter === 'not_started' ? !member.review : member.review?.status === statusFilter))
+    .filter(member => !departmentFilter || member.employee.department === departmentFilter)
+    .sort(COMPARATORS[sortKey]), [team, statusFilter, departmentFilter, sortKey])
+
+  const finalizedCount = team.filter(member => member.review?.status === 'finalized').length
+
+  const cycle = cycles.find(c => c.id === cycleId)
+  const selectableIds = rows.filter(member => canBulkGenerate(member, cycle)).map(member => member.employee.id)
+  const allSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.includes(id))
+
+  const toggleSelected = (employeeId: string) => {
+    setSelectedIds(selectedIds.includes(employeeId)
+      ? selectedIds.filter(id => id !== employeeId)
+      : [...selectedIds, employeeId])
+  }
+
+  const handleBulkGenerate = async (employeeIds: string[]) => {
+    setIsBulkRunning(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/synthesize/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cycleId, employeeIds })
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.details || result.error)
+      }
+
+      await readSSE(response, (event, data) => {
+        if (event === 'progress') {
+          const progress = data as BulkProgress
+          setBulkProgress(current => ({ ...current, [progress.employeeId]: progress }))
+          if (progress.review) {
+            setTeam(current => current.map(member =>
+              member.employee.id === progress.employeeId
+                // Bulk generation skips finalized reviews, so there is nothing acknowledged yet
+                ? { ...member, review: { ...progress.review!, acknowledged_at: null, response_count: 0 } }
+                : member))
+          }
+        } else if (event === 'done') {
+          const summary = data as BulkSummary
+          const unfinished = [...summary.failed, ...summary.skipped]
+          setUnfinishedIds(unfinished)
+          setSelectedIds(unfinished)
+        } else if (event === 'error') {
+          throw new Error(data.details || data.error)
+        }
+      })
+    } catch (err) {
+      setError(`Bulk generation failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+    setIsBulkRunning(false)
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="sonance-card p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="sonance-title text-lg flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              Team Reviews
+            </h2>
+            {team.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">{finalizedCount} of {team.length} reviews finalized</p>
+            )}
+          </div>
+          <select
+            value={cycleId}
+            onChange={(e) => setCycleId(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+          >
+            {cycles.map(cycle => (
+              <option key={cycle.id} value={cycle.id}>
+                {cycle.name}{cycle.status !== 'active' ? ` (${cycle.status})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">All statuses</option>
+            <option value="not_started">Not started</option>
+            {REVIEW_STATUSES.map(status => (
+              <option key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <select
+            value={departmentFilter}
+            onChange={(e) => setDepartmentFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">All departments</option>
+            {departments.map(department => (
+              <option key={department} value={department}>{department}</option>
+            ))}
+          </select>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="name">Sort by name</option>
+            <option value="status">Sort by status</option>
+            <option value="department">Sort by department</option>
+            <option value="updated">Sort by last updated</option>
+          </select>
+          <div className="ml-auto flex gap-2">
+            {unfinishedIds.length > 0 && !isBulkRunning && (
+              <button
+                onClick={() => handleBulkGenerate(unfinishedIds)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Retry unfinished ({unfinishedIds.length})
+              </button>
+            )}
+            <button
+              onClick={() => handleBulkGenerate(selectedIds)}
+              disabled={isBulkRunning || selectedIds.length === 0}
+              className="inline-flex items-center px-3 py-1.5 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+            >
+              <Sparkles className="h-4 w-4 mr-1" />
+              {isBulkRunning ? 'Generating...' : `Generate selected (${selectedIds.length})`}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading team...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {team.length === 0 ? 'No employees report to you yet.' : 'No employees match these filters.'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={isBulkRunning || selectableIds.length === 0}
+                    onChange={() => setSelectedIds(allSelected ? [] : selectableIds)}
+                    aria-label="Select all reviews that can be generated"
+                  />
+                </th>
+                <th className="py-2 font-medium">Employee</th>
+                <th className="py-2 font-medium">Department</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium">Inputs</th>
+                <th className="py-2 font-medium">Last updated</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(member => (
+                <tr key={member.employee.id} className="border-b border-gray-100">
+                  <td className="py-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(member.employee.id)}
+                      disabled={isBulkRunning || !canBulkGenerate(member, cycle)}
+                      onChange={() => toggleSelected(member.employee.id)}
+                      aria-label={`Select ${member.employee.name}`}
+                    />
+                  </td>
+                  <td className="py-3">
+                    <div className="font-medium text-gray-800">{member.employee.name}</div>
+                    {member.employee.position && <div className="text-xs text-gray-500">{member.employee.position}</div>}
+                  </td>
+                  <td className="py-3 text-gray-600">{member.employee.department || '-'}</td>
+                  <td className="py-3">
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                      {member.review ? REVIEW_STATUS_LABELS[member.review.status] : 'Not started'}
+                    </span>
+                    {member.review?.status === 'finalized' && !member.review.reopened && (
+                      <div className={`mt-1 text-xs ${member.review.acknowledged_at ? 'text-green-700' : 'text-gray-500'}`}>
+                        {member.review.acknowledged_at
+                          ? `Acknowledged ${new Date(member.review.acknowledged_at).toLocaleDateString()}`
+                          : 'Awaiting acknowledgement'}
+                        {member.review.response_count > 0 && ` · ${member.review.response_count} response${member.review.response_count === 1 ? '' : 's'}`}
+                      </div>
+                    )}
+                    {bulkProgress[member.employee.id] && (
+                      <div
+                        className={`mt-1 text-xs ${bulkProgress[member.employee.id].status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}
+                        title={bulkProgress[member.employee.id].error}
+                      >
+                        {BULK_STATUS_LABELS[bulkProgress[member.employee.id].status]}
+                        {bulkProgress[member.employee.id].error && `: ${bulkProgress[member.employee.id].error}`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex gap-1">
+                      {(Object.keys(INPUT_LABELS) as (keyof DataUsed)[]).map(input => (
+                        <span
+                          key={input}
+                          className={`px-1.5 py-0.5 rounded text-xs ${member.inputs[input] ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-400'}`}
+                        >
+                          {member.inputs[input] ? '✓' : '✗'} {INPUT_LABELS[input]}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-3 text-gray-600">
+                    {member.review ? new Date(member.review.updated_at).toLocaleString() : '-'}
+                  </td>
+                  <td className="py-3 text-right space-x-3">
+                    {member.review?.status === 'finalized' && (['pdf', 'docx'] as const).map(format => (
+                      <a
+                        key={format}
+                        href={`/api/reviews/${member.review!.id}/export?format=${format}&itp=true`}
+                        className="text-gray-600 hover:underline"
+                      >
+                        {format.toUpperCase()}
+                      </a>
+                    ))}
+                    <Link
+                      href={`/?employeeId=${member.employee.id}&cycleId=${cycleId}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {actionLabel(member)}
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Mail } from 'lucide-react'
+import { getBrowserSupabase } from '@/lib/supabase'
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  missing_code: 'The sign-in link is incomplete. Request a new one below.',
+  sign_in_failed: 'The sign-in link is invalid or has expired. Request a new one below.'
+}
+
+export default function LoginPage() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(CALLBACK_ERRORS[searchParams.get('error') || ''] || null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSending(true)
+    setError(null)
+
+    const next = searchParams.get('next') || '/'
+    const { error: signInError } = await getBrowserSupabase().auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}` }
+    })
+
+    if (signInError) {
+      setError(signInError.message)
+    } else {
+      setSentTo(email.trim())
+    }
+    setIsSending(false)
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4">
+      <div className="sonance-card p-6">
+        <h2 className="sonance-title text-lg mb-1">Sign in</h2>
+        <p className="text-sm text-gray-600 mb-6">We&apos;ll email you a link to sign in. No password needed.</p>
+
+        {sentTo ? (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-700">Check {sentTo} for your sign-in link.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Work email</label>
+              <input
+                id="email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="you@company.com"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={isSending || !email.trim()}
+              className="w-full sonance-button-primary py-2 px-4 rounded-lg font-semibold disabled:opacity-50 flex items-center justify-center space-x-2"
+            >
+              <Mail className="h-4 w-4" />
+              <span>{isSending ? 'Sending link...' : 'Email me a sign-in link'}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle, FileText } from 'lucide-react'
+import type { EmployeeReview } from '@/lib/employee-reviews'
+import { MAX_RESPONSE_CHARS } from '@/lib/employee-reviews'
+import { ratingLabel, ReviewSection } from '@/lib/review-sections'
+
+function sectionRating(section: ReviewSection, review: EmployeeReview) {
+  const rating = review.ratings[section.key]
+  if (!section.ratingScale || rating === undefined) return null
+  return [`${rating} / ${section.ratingScale.max}`, ratingLabel(section.ratingScale, rating)].filter(Boolean).join(' - ')
+}
+
+// Read-only view of the signed-in employee's finalized reviews, where they add a written
+// response and acknowledge receipt
+export default function MyReviewsPage() {
+  const [reviews, setReviews] = useState<EmployeeReview[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      try {
+        const response = await fetch('/api/my-reviews')
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        setReviews(result.reviews)
+      } catch (err) {
+        setError(`Could not load your reviews: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+      setIsLoading(false)
+    }
+    loadReviews()
+  }, [])
+
+  // Posts to one of the review's endpoints and replaces the review with the updated one
+  const runAction = async (review: EmployeeReview, action: 'response' | 'acknowledge', body?: object) => {
+    setBusyId(review.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/my-reviews/${review.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setReviews(current => current.map(r => r.id === review.id ? result.review : r))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRespond = async (review: EmployeeReview) => {
+    if (await runAction(review, 'response', { response: drafts[review.id] || '' })) {
+      setDrafts(current => ({ ...current, [review.id]: '' }))
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <div className="sonance-card p-6">
+        <h2 className="sonance-title text-lg flex items-center mb-2">
+          <FileText className="h-5 w-5 mr-2" />
+          My Reviews
+        </h2>
+        <p className="text-sm text-gray-500">
+          Your reviews appear here once your manager has finalized them.
+          Acknowledging a review confirms you received it, not that you agree with it.
+        </p>
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+        {isLoading && <p className="text-sm text-gray-500 mt-4">Loading your reviews...</p>}
+        {!isLoading && reviews.length === 0 && !error && (
+          <p className="text-sm text-gray-500 mt-4">You have no finalized reviews yet.</p>
+        )}
+      </div>
+
+      {reviews.map(review => (
+        <div key={review.id} className="sonance-card p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-medium text-gray-800">{review.cycle?.name || 'Performance Review'}</h3>
+              <p className="text-xs text-gray-500">Finalized {new Date(review.finalizedAt).toLocaleDateString()}</p>
+            </div>
+            {review.acknowledgedAt ? (
+              <span className="inline-flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Acknowledged {new Date(review.acknowledgedAt).toLocaleString()}
+              </span>
+            ) : (
+              <button
+                onClick={() => runAction(review, 'acknowledge')}
+                disabled={busyId === review.id}
+                className="px-4 py-2 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+              >
+                Acknowledge receipt
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            {review.sections.filter(section => review.text[section.key]?.trim()).map(section => (
+              <div key={section.key}>
+                <h4 className="font-medium text-gray-700 mb-1">{section.title}</h4>
+                {sectionRating(section, review) && (
+                  <p className="text-sm font-medium text-gray-600 mb-1">Rating: {sectionRating(section, review)}</p>
+                )}
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.text[section.key]}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <h4 className="font-medium text-gray-700 mb-2">Your response</h4>
+            {review.responses.map((response, index) => (
+              <div key={index} className="bg-gray-50 rounded-md p-3 mb-2">
+                <p className="text-xs text-gray-500 mb-1">{new Date(response.createdAt).toLocaleString()}</p>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{response.response}</p>
+              </div>
+            ))}
+            <textarea
+              className="w-full h-24 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Add comments on your review for your manager and HR..."
+              maxLength={MAX_RESPONSE_CHARS}
+              value={drafts[review.id] || ''}
+              onChange={(e) => setDrafts(current => ({ ...current, [review.id]: e.target.value }))}
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={() => handleRespond(review)}
+                disabled={busyId === review.id || !drafts[review.id]?.trim()}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {busyId === review.id ? 'Saving...' : 'Add response'}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,33 +1,109 @@
 'use client'
 
-import { useState } from 'react'
-import { Upload, FileText, Users, MessageSquare, Settings, Download, Sparkles, X, Camera, CheckCircle, Eye } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Upload, FileText, Users, MessageSquare, Settings, Sparkles, X, Camera, CheckCircle, Eye } from 'lucide-react'
+import { ITPDimension, ITP_DIMENSIONS, ITP_DIMENSION_LABELS, parseITPScoreText } from '@/lib/itp'
+import type { ITPExtraction, ResolvedITPScores } from '@/lib/itp-extraction'
+import type { GapAnalysis } from '@/lib/gap-analysis'
+import ITPGapChart from '@/components/ITPGapChart'
+import { uploadFile, getFeedback360Url, Review, ReviewCycle, ReviewStatus } from '@/lib/supabase'
+import { formatFileSize, uploadContentType, validateUpload, UploadKind, REVIEW_DOCUMENTS_BUCKET } from '@/lib/uploads'
+import ReviewSelector, { EmployeeOption } from '@/components/ReviewSelector'
+import {
+  ReviewSectionRatings,
+  ReviewSectionText,
+  STANDARD_SECTIONS,
+  currentSections,
+  hasGeneratedSections,
+  ratingLabel
+} from '@/lib/review-sections'
+import type { ResolvedTemplate, ReviewTemplateSummary } from '@/lib/review-templates'
+import type { ReviewEvidence } from '@/lib/review-evidence'
+import type { GoalProgress } from '@/lib/goal-progress'
+import type { Feedback360Analysis } from '@/lib/feedback360-analysis'
+import { lintReview, unacknowledgedFindings, LintFinding } from '@/lib/review-lint'
+import EditableSection from '@/components/EditableSection'
+import ReviewHistoryPanel from '@/components/ReviewHistoryPanel'
+import GoalProgressPanel from '@/components/GoalProgressPanel'
+import Feedback360ThemesPanel from '@/components/Feedback360ThemesPanel'
+import ExportMenu from '@/components/ExportMenu'
+import { readSSE } from '@/lib/sse'
+import { ReviewOutputError } from '@/lib/review-output'
+import ITPScoreGrid, { ITPScoreGridValues, ITPScoreRow, emptyITPScoreGrid, hasITPScoreErrors } from '@/components/ITPScoreGrid'
+
+// A file uploaded to storage; the synthesis endpoints are sent its path
+interface UploadedInput {
+  name: string
+  size: number
+  path: string
+}
 
 interface ReviewInputs {
-  itpEmployeeScreenshots: File[]
-  itpManagerScreenshots: File[]
-  feedback360: File | null
-  selfReviewScreenshots: File[]
+  itpEmployeeScreenshots: UploadedInput[]
+  itpManagerScreenshots: UploadedInput[]
+  feedback360: UploadedInput | null
+  // An uploaded self review document is used in place of the pasted text
+  selfReviewFile: UploadedInput | null
+  selfReviewText: string
   managerComments: string
 }
 
+type FileInputType = Exclude<keyof ReviewInputs, 'selfReviewText' | 'managerComments'>
+type SingleFileInputType = 'feedback360' | 'selfReviewFile'
+
+const isSingleFileInput = (type: FileInputType): type is SingleFileInputType =>
+  type === 'feedback360' || type === 'selfReviewFile'
+
+const UPLOAD_KIND_FOR_INPUT: Record<FileInputType, UploadKind> = {
+  itpEmployeeScreenshots: 'itp_screenshot',
+  itpManagerScreenshots: 'itp_screenshot',
+  feedback360: 'feedback360',
+  selfReviewFile: 'self_review'
+}
+
+interface ExtractedData {
+  itpEmployeeScores: ResolvedITPScores | null
+  itpManagerScores: ResolvedITPScores | null
+  gapAnalysis: GapAnalysis | null
+  feedback360Summary: string | null
+  feedback360Pages: number | null
+  feedback360Analysis: Feedback360Analysis | null
+  selfReviewText: string | null
+}
+
 interface ReviewOutput {
-  strengths: string
-  developmentFeedback: string
-  goalsNextYear: string
-  overallAssessment: string
+  sections: ReviewSectionText
+  ratings: ReviewSectionRatings
+  // Input sources for each generated claim, by section
+  evidence: ReviewEvidence
+  // Status of each goal from the previous cycle's review, when it was followed up
+  goalProgress: GoalProgress[]
+  // The template the sections were generated with
+  template: ResolvedTemplate
   dataUsed: {
     itpScores: boolean
     feedback360: boolean
     selfReview: boolean
     managerComments: boolean
   }
-  extractedData?: {
-    itpEmployeeScores: { humble: number; hungry: number; smart: number } | null
-    itpManagerScores: { humble: number; hungry: number; smart: number } | null
-    feedback360Summary: string | null
-    selfReviewSummary: string | null
-  }
+  extractedData?: ExtractedData
+  review?: Review | null
+  saveError?: string
+}
+
+interface ProviderOption {
+  name: string
+  label: string
+  model: string
+  configured: boolean
+}
+
+type ITPScreenshotType = 'itpEmployeeScreenshots' | 'itpManagerScreenshots'
+
+const SCORE_ROW_FOR_SCREENSHOTS: Record<ITPScreenshotType, ITPScoreRow> = {
+  itpEmployeeScreenshots: 'self',
+  itpManagerScreenshots: 'manager'
 }
 
 const VERSION = "2.3.4"
@@ -37,25 +113,356 @@ export default function HomePage() {
     itpEmployeeScreenshots: [],
     itpManagerScreenshots: [],
     feedback360: null,
-    selfReviewScreenshots: [],
+    selfReviewFile: null,
+    selfReviewText: '',
     managerComments: ''
   })
 
   const [output, setOutput] = useState<ReviewOutput | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
+  // Section text received so far while a review is being generated
+  const [streamedSections, setStreamedSections] = useState<Partial<ReviewSectionText> | null>(null)
   const [currentStep, setCurrentStep] = useState(1)
   const [error, setError] = useState<string | null>(null)
+  const [itpExtraction, setItpExtraction] = useState<Record<ITPScreenshotType, ITPExtraction | null>>({
+    itpEmployeeScreenshots: null,
+    itpManagerScreenshots: null
+  })
+  const [extractingITP, setExtractingITP] = useState<ITPScreenshotType | null>(null)
+  const [uploading, setUploading] = useState<FileInputType | null>(null)
+  const [itpScores, setItpScores] = useState<ITPScoreGridValues>(emptyITPScoreGrid)
+
+  const [employees, setEmployees] = useState<EmployeeOption[]>([])
+  const [cycles, setCycles] = useState<ReviewCycle[]>([])
+  const [employeeId, setEmployeeId] = useState('')
+  const [cycleId, setCycleId] = useState('')
+  const [review, setReview] = useState<Review | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const searchParams = useSearchParams()
+  const [providers, setProviders] = useState<ProviderOption[]>([])
+  const [providerName, setProviderName] = useState('')
+  const [templates, setTemplates] = useState<ReviewTemplateSummary[]>([])
+  // Template for the next full generation; empty uses the server's default
+  const [templateId, setTemplateId] = useState('')
+  // Follow up on the goals and ITP scores of the employee's previous review when generating
+  const [includePriorReview, setIncludePriorReview] = useState(true)
+
+  // Load the employee list and active review cycles once
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [employeesResponse, cyclesResponse] = await Promise.all([
+          fetch('/api/employees'),
+          fetch('/api/review-cycles')
+        ])
+        if (!employeesResponse.ok || !cyclesResponse.ok) throw new Error('Review storage is unavailable')
+
+        const { employees } = await employeesResponse.json()
+        const { cycles: allCycles } = await cyclesResponse.json()
+        // Links from the dashboard may open a review in a cycle that is no longer active
+        const linkedEmployeeId = searchParams.get('employeeId')
+        const linkedCycleId = searchParams.get('cycleId')
+        const cycles = allCycles.filter((cycle: ReviewCycle) => cycle.status === 'active' || cycle.id === linkedCycleId)
+        setEmployees(employees)
+        setCycles(cycles)
+        if (linkedCycleId && cycles.some((cycle: ReviewCycle) => cycle.id === linkedCycleId)) {
+          setCycleId(linkedCycleId)
+        } else if (cycles.length === 1) {
+          setCycleId(cycles[0].id)
+        }
+        if (linkedEmployeeId) setEmployeeId(linkedEmployeeId)
+      } catch (err) {
+        console.error('Failed to load employees and cycles:', err)
+        setError('Could not load employees and review cycles. Reviews will not be saved.')
+      }
+    }
+    loadOptions()
+  }, [searchParams])
+
+  // Providers are optional: without them the server's configured default is used
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/providers')
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const result = await response.json()
+        setProviders(result.providers)
+        setProviderName(result.defaultProvider)
+      } catch (err) {
+        console.error('Failed to load AI providers:', err)
+      }
+    }
+    loadProviders()
+  }, [])
+
+  // Without stored templates the built-in standard template is used
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/templates')
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const result = await response.json()
+        setTemplates(result.templates)
+        const defaultTemplate = result.templates.find((t: ReviewTemplateSummary) => t.is_default)
+        if (defaultTemplate) setTemplateId(prev => prev || defaultTemplate.id)
+      } catch (err) {
+        console.error('Failed to load review templates:', err)
+      }
+    }
+    loadTemplates()
+  }, [])
+
+  // Reopening an employee's review restores its saved inputs and outputs. The load calls the latest
+  // restoreReview through a ref, so only a new selection reloads.
+  const restoreReviewRef = useRef<(saved: Review | null, template: ResolvedTemplate | null, extractedData: ExtractedData | null) => void>(() => {})
+  useEffect(() => {
+    if (!employeeId || !cycleId) {
+      setReview(null)
+      return
+    }
+
+    // Switching employees quickly must not let an earlier response overwrite the later one
+    let cancelled = false
+    const loadReview = async () => {
+      try {
+        const response = await fetch(`/api/reviews?employeeId=${employeeId}&cycleId=${cycleId}`)
+        const result = await response.json()
+        if (cancelled) return
+        if (!response.ok) throw new Error(result.details || result.error)
+        restoreReviewRef.current(result.review, result.template, result.extractedData)
+      } catch (err) {
+        if (cancelled) return
+        console.error('Failed to load review:', err)
+        setError(`Could not load the saved review: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+    loadReview()
+    return () => { cancelled = true }
+  }, [employeeId, cycleId])
+
+  const restoreReview = (saved: Review | null, template: ResolvedTemplate | null, extractedData: ExtractedData | null) => {
+    setReview(saved)
+    setInputs({
+      itpEmployeeScreenshots: [],
+      itpManagerScreenshots: [],
+      feedback360: null,
+      selfReviewFile: null,
+      selfReviewText: saved?.self_review_text || '',
+      managerComments: saved?.manager_comments || ''
+    })
+    setItpExtraction({ itpEmployeeScreenshots: null, itpManagerScreenshots: null })
+
+    const grid = emptyITPScoreGrid()
+    if (saved) {
+      ITP_DIMENSIONS.forEach(d => {
+        const selfValue = saved[`itp_self_${d}`]
+        const managerValue = saved[`itp_manager_${d}`]
+        grid.self[d].value = selfValue !== null ? String(selfValue) : ''
+        grid.manager[d].value = managerValue !== null ? String(managerValue) : ''
+      })
+    }
+    setItpScores(grid)
+
+    if (template?.templateId) setTemplateId(template.templateId)
+
+    if (saved && template && hasGeneratedSections(saved)) {
+      setOutput({
+        sections: currentSections(saved, template.sections),
+        ratings: saved.section_ratings,
+        evidence: saved.section_evidence,
+        goalProgress: saved.goal_progress || [],
+        template,
+        dataUsed: {
+          itpScores: ITP_DIMENSIONS.some(d => saved[`itp_self_${d}`] !== null || saved[`itp_manager_${d}`] !== null),
+          feedback360: !!saved.feedback_360_text,
+          selfReview: !!saved.self_review_text,
+          managerComments: !!saved.manager_comments?.trim()
+        },
+        extractedData: extractedData ?? undefined
+      })
+    } else {
+      setOutput(null)
+    }
+    setTimeout(updateCurrentStep, 100)
+  }
+  restoreReviewRef.current = restoreReview
+
+  const saveReviewChanges = async (changes: Record<string, unknown>) => {
+    if (!employeeId || !cycleId) return
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/reviews', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ employeeId, cycleId, ...changes })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setReview(result.review)
+    } catch (err) {
+      console.error('Failed to save review:', err)
+      setError(`Could not save the review: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+    setIsSaving(false)
+  }
+
+  const handleSaveDraft = () => {
+    if (hasITPScoreErrors(itpScores)) {
+      setError('Please fix the highlighted ITP scores before saving.')
+      return
+    }
+
+    const changes: Record<string, unknown> = {
+      manager_comments: inputs.managerComments,
+      self_review_text: inputs.selfReviewText.trim() || null
+    }
+    ITP_DIMENSIONS.forEach(d => {
+      changes[`itp_self_${d}`] = parseITPScoreText(itpScores.self[d].value)
+      changes[`itp_manager_${d}`] = parseITPScoreText(itpScores.manager[d].value)
+    })
+    saveReviewChanges(changes)
+  }
+
+  const handleStatusChange = (status: ReviewStatus) => saveReviewChanges({ status })
+
+  const applySavedSections = (saved: Review) => {
+    setReview(saved)
+    setOutput(prev => prev
+      ? {
+          ...prev,
+          sections: currentSections(saved, prev.template.sections),
+          ratings: saved.section_ratings,
+          evidence: saved.section_evidence
+        }
+      : prev)
+  }
+
+  // Edits are saved to final_sections when the review is stored, otherwise kept locally
+  const handleSaveSection = async (key: string, text: string) => {
+    if (!review) {
+      setOutput(prev => prev ? { ...prev, sections: { ...prev.sections, [key]: text } } : prev)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/sections`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sections: { [key]: text } })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      applySavedSections(result.review)
+    } catch (err) {
+      setError(`Could not save your edit: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      throw err
+    }
+  }
+
+  const handleRatingChange = async (key: string, rating: number) => {
+    if (!review) {
+      setOutput(prev => prev ? { ...prev, ratings: { ...prev.ratings, [key]: rating } } : prev)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/sections`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ratings: { [key]: rating } })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      applySavedSections(result.review)
+    } catch (err) {
+      setError(`Could not save the rating: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleViewFeedback360 = async () => {
+    if (!review) return
+    // Opened before the request so popup blockers treat it as part of the click
+    const tab = window.open('', '_blank')
+    try {
+      const url = await getFeedback360Url(review.id)
+      if (tab) tab.location.href = url
+    } catch (err) {
+      tab?.close()
+      setError(`Could not open the 360 feedback document: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleAcknowledgeFinding = async (finding: LintFinding) => {
+    if (!review) return
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/acknowledgements`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ findingIds: [finding.id] })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setReview(result.review)
+    } catch (err) {
+      setError(`Could not acknowledge the finding: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  // Rewrites one section; the other sections are sent along so the model keeps them consistent.
+  // A saved review is rewritten from its stored inputs, so the uploads aren't sent again.
+  const handleRegenerateSection = async (key: string, instruction: string) => {
+    if (!output) return
+
+    try {
+      const saved = review && hasGeneratedSections(review) ? review : null
+      const formData = saved ? new FormData() : buildInputFormData()
+      if (saved) {
+        formData.append('employeeId', saved.employee_id)
+        formData.append('reviewCycleId', saved.review_cycle_id)
+        if (providerName) formData.append('provider', providerName)
+      }
+      formData.append('section', key)
+      formData.append('instruction', instruction)
+      formData.append('currentSections', JSON.stringify(output.sections))
+      // Saved reviews are regenerated with the template version they were generated with
+      if (!saved && output.template.templateId) formData.append('templateId', output.template.templateId)
+
+      const response = await fetch('/api/synthesize/section', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      if (result.review) {
+        applySavedSections(result.review)
+      } else {
+        // The section's evidence described the old text
+        setOutput(prev => {
+          if (!prev) return prev
+          const evidence = { ...prev.evidence }
+          delete evidence[key]
+          return { ...prev, sections: { ...prev.sections, [key]: result.text }, evidence }
+        })
+      }
+    } catch (err) {
+      setError(`Could not regenerate the section: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      throw err
+    }
+  }
+
+  const rowHasScores = (row: ITPScoreRow) =>
+    ITP_DIMENSIONS.some(d => parseITPScoreText(itpScores[row][d].value) !== null)
 
   // Calculate completion status for each step
   const getStepStatus = (stepId: number) => {
     switch (stepId) {
-      case 1: // ITP Assessment
-        return (inputs.itpEmployeeScreenshots.length > 0 && inputs.itpManagerScreenshots.length > 0) ? 'complete' :
-               (inputs.itpEmployeeScreenshots.length > 0 || inputs.itpManagerScreenshots.length > 0) ? 'partial' : 'incomplete'
+      case 1: { // ITP Assessment
+        const hasSelf = inputs.itpEmployeeScreenshots.length > 0 || rowHasScores('self')
+        const hasManager = inputs.itpManagerScreenshots.length > 0 || rowHasScores('manager')
+        return (hasSelf && hasManager) ? 'complete' : (hasSelf || hasManager) ? 'partial' : 'incomplete'
+      }
       case 2: // 360 Feedback (optional)
-        return inputs.feedback360 ? 'complete' : 'skipped'
+        return inputs.feedback360 || review?.feedback_360_text ? 'complete' : 'skipped'
       case 3: // Self Review
-        return inputs.selfReviewScreenshots.length > 0 ? 'complete' : 'incomplete'
+        return inputs.selfReviewFile || inputs.selfReviewText.trim().length > 0 ? 'complete' : 'incomplete'
       case 4: // Manager Comments
         return inputs.managerComments.trim().length > 0 ? 'complete' : 'incomplete'
       case 5: // Generate Review
@@ -77,33 +484,71 @@ export default function HomePage() {
     setCurrentStep(5) // All steps complete
   }
 
+  // The form fields shared by full generation and section regeneration
+  const buildInputFormData = () => {
+    const formData = new FormData()
+
+    inputs.itpEmployeeScreenshots.forEach((file) => {
+      formData.append('itpEmployeeScreenshots', file.path)
+    })
+
+    inputs.itpManagerScreenshots.forEach((file) => {
+      formData.append('itpManagerScreenshots', file.path)
+    })
+
+    if (inputs.feedback360) {
+      formData.append('feedback360', inputs.feedback360.path)
+    }
+
+    if (inputs.selfReviewFile) {
+      formData.append('selfReviewFile', inputs.selfReviewFile.path)
+    }
+    formData.append('selfReviewText', inputs.selfReviewText)
+
+    formData.append('managerComments', inputs.managerComments)
+    formData.append('itpSelfScores', JSON.stringify(scoreRowToJSON('self')))
+    formData.append('itpManagerScores', JSON.stringify(scoreRowToJSON('manager')))
+    if (employeeId && cycleId) {
+      formData.append('employeeId', employeeId)
+      formData.append('reviewCycleId', cycleId)
+      if (includePriorReview) formData.append('includePriorReview', 'true')
+    }
+    if (providerName) formData.append('provider', providerName)
+    return formData
+  }
+
+  // Shows each section as it streams in and resolves with the final saved review
+  const readReviewStream = async (response: Response) => {
+    let result: ReviewOutput | null = null
+    setStreamedSections({})
+    await readSSE(response, (event, data) => {
+      if (event === 'section') {
+        setStreamedSections(prev => ({ ...prev, [data.key]: data.text }))
+      } else if (event === 'done') {
+        result = data
+      } else if (event === 'error') {
+        if (data.review) setReview(data.review)
+        if (data.code === 'invalid_model_output') throw new ReviewOutputError(data.errors, data.attempts)
+        throw new Error(data.details || data.error)
+      }
+    })
+    if (!result) throw new Error('The review stream ended before the review was complete')
+    return result as ReviewOutput
+  }
+
   const handleGenerateReview = async () => {
     console.log('Generate review clicked')
+    if (hasITPScoreErrors(itpScores)) {
+      setError('Please fix the highlighted ITP scores before generating the review.')
+      return
+    }
+
     setIsGenerating(true)
     setError(null)
     
     try {
-      // Build form data
-      const formData = new FormData()
-      
-      // Add all files and data
-      inputs.itpEmployeeScreenshots.forEach((file) => {
-        formData.append('itpEmployeeScreenshots', file)
-      })
-      
-      inputs.itpManagerScreenshots.forEach((file) => {
-        formData.append('itpManagerScreenshots', file)
-      })
-      
-      inputs.selfReviewScreenshots.forEach((file) => {
-        formData.append('selfReviewScreenshots', file)
-      })
-      
-      if (inputs.feedback360) {
-        formData.append('feedback360', inputs.feedback360)
-      }
-      
-      formData.append('managerComments', inputs.managerComments)
+      const formData = buildInputFormData()
+      if (templateId) formData.append('templateId', templateId)
 
       console.log('Sending API request...')
       const response = await fetch('/api/synthesize', {
@@ -115,103 +560,186 @@ export default function HomePage() {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.details || `HTTP ${response.status}: Failed to generate review`)
+        throw new Error(errorData.details || errorData.error || `HTTP ${response.status}: Failed to generate review`)
       }
 
-      const result = await response.json()
+      // Successful generation streams section text as it arrives; fallbacks come back as plain JSON
+      const result: ReviewOutput = response.headers.get('content-type')?.includes('text/event-stream')
+        ? await readReviewStream(response)
+        : await response.json()
+
       console.log('Review generated:', result)
       setOutput(result)
+      if (result.review) setReview(result.review)
+      if (result.saveError) setError(`Review generated but not saved: ${result.saveError}`)
       updateCurrentStep()
       
     } catch (error) {
       console.error('Error generating review:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      setError(`DETAILED ERROR: ${errorMessage}`)
-      
-      // Also try to show the error in the UI more prominently
-      alert(`DEBUG ERROR: ${errorMessage}`)
+      if (error instanceof ReviewOutputError) {
+        setError(`${error.message}. Try generating again or choose a different AI model. Problems: ${error.errors.join('; ')}`)
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+        setError(`DETAILED ERROR: ${errorMessage}`)
+
+        // Also try to show the error in the UI more prominently
+        alert(`DEBUG ERROR: ${errorMessage}`)
+      }
     }
     
+    setStreamedSections(null)
     setIsGenerating(false)
   }
 
-  const handleFileUpload = (files: FileList | null, type: keyof ReviewInputs) => {
-    if (!files) return
+  const scoreRowToJSON = (row: ITPScoreRow) => {
+    const scores: Partial<Record<ITPDimension, number>> = {}
+    ITP_DIMENSIONS.forEach(d => {
+      const value = parseITPScoreText(itpScores[row][d].value)
+      if (value !== null) scores[d] = value
+    })
+    return scores
+  }
 
-    // Validate file sizes (max 1MB per file, 4MB total for Vercel limits)
-    const maxFileSize = 1 * 1024 * 1024 // 1MB
-    const maxTotalSize = 4 * 1024 * 1024 // 4MB
-    
-    let totalSize = 0
-    const validFiles: File[] = []
-    
-    for (const file of Array.from(files)) {
-      if (file.size > maxFileSize) {
-        setError(`File "${file.name}" is too large (${Math.round(file.size / (1024 * 1024))}MB). Maximum file size is 1MB.`)
-        return
+  const handleScoreChange = (row: ITPScoreRow, dimension: ITPDimension, value: string) => {
+    setItpScores(prev => ({
+      ...prev,
+      [row]: { ...prev[row], [dimension]: { value, source: 'manual' } }
+    }))
+    setTimeout(updateCurrentStep, 100)
+  }
+
+  // Extracted scores pre-fill the grid but never overwrite a value the manager typed
+  const applyExtractedScores = (row: ITPScoreRow, extraction: ITPExtraction | null) => {
+    setItpScores(prev => {
+      const next = { ...prev[row] }
+      ITP_DIMENSIONS.forEach(d => {
+        if (next[d].source === 'manual' && next[d].value.trim()) return
+        const value = extraction?.[d].value
+        next[d] = { value: value != null ? String(value) : '', source: value != null ? 'screenshot' : 'manual' }
+      })
+      return { ...prev, [row]: next }
+    })
+  }
+
+  // Read scores from the ITP screenshots so low-confidence values can be checked before generating
+  const runITPExtraction = async (type: ITPScreenshotType, files: UploadedInput[]) => {
+    if (files.length === 0) {
+      setItpExtraction(prev => ({ ...prev, [type]: null }))
+      applyExtractedScores(SCORE_ROW_FOR_SCREENSHOTS[type], null)
+      return
+    }
+
+    setExtractingITP(type)
+    try {
+      const formData = new FormData()
+      files.forEach(file => formData.append('screenshots', file.path))
+      if (providerName) formData.append('provider', providerName)
+
+      const response = await fetch('/api/extract-itp', { method: 'POST', body: formData })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `HTTP ${response.status}`)
       }
-      totalSize += file.size
-      validFiles.push(file)
+      setItpExtraction(prev => ({ ...prev, [type]: result.extraction }))
+      applyExtractedScores(SCORE_ROW_FOR_SCREENSHOTS[type], result.extraction)
+    } catch (err) {
+      console.error('ITP extraction failed:', err)
+      setItpExtraction(prev => ({ ...prev, [type]: null }))
+      setError(`Could not read ITP scores: ${err instanceof Error ? err.message : 'Unknown error'}`)
     }
-    
-    // Check existing files total size
-    const existingSize = Object.values(inputs).reduce((total, fileOrFiles) => {
-      if (fileOrFiles instanceof File) return total + fileOrFiles.size
-      if (Array.isArray(fileOrFiles)) return total + fileOrFiles.reduce((sum, f) => sum + f.size, 0)
-      return total
-    }, 0)
-    
-    if (existingSize + totalSize > maxTotalSize) {
-      setError(`Total file size would exceed 4MB limit. Current: ${Math.round(existingSize / (1024 * 1024))}MB, Adding: ${Math.round(totalSize / (1024 * 1024))}MB`)
+    setExtractingITP(null)
+  }
+
+  // Files go straight to storage with a signed upload URL; only their paths are sent to the API
+  const uploadInputFile = async (file: File, kind: UploadKind): Promise<UploadedInput> => {
+    const response = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ kind, fileName: file.name, contentType: uploadContentType(file), size: file.size })
+    })
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.details || result.error)
+
+    await uploadFile(file, REVIEW_DOCUMENTS_BUCKET, result.path, result.token)
+    return { name: file.name, size: file.size, path: result.path }
+  }
+
+  const handleFileUpload = async (files: FileList | null, type: FileInputType) => {
+    if (!files || files.length === 0) return
+
+    const kind = UPLOAD_KIND_FOR_INPUT[type]
+    const selected = Array.from(files)
+    const problem = selected.map(file => validateUpload(kind, file)).find(Boolean)
+    if (problem) {
+      setError(problem)
       return
     }
 
     // Clear any previous errors
     setError('')
+    setUploading(type)
+    let uploaded: UploadedInput[]
+    try {
+      uploaded = await Promise.all(selected.map(file => uploadInputFile(file, kind)))
+    } catch (err) {
+      console.error('Upload failed:', err)
+      setError(`Could not upload the file: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      setUploading(null)
+      return
+    }
+    setUploading(null)
 
-    if (type === 'feedback360') {
-      setInputs(prev => ({ ...prev, [type]: validFiles[0] }))
+    if (isSingleFileInput(type)) {
+      setInputs(prev => ({ ...prev, [type]: uploaded[0] }))
     } else {
       setInputs(prev => ({
         ...prev,
-        [type]: [...(prev[type] as File[]), ...validFiles]
+        [type]: [...prev[type], ...uploaded]
       }))
     }
+
+    if (type === 'itpEmployeeScreenshots' || type === 'itpManagerScreenshots') {
+      runITPExtraction(type, [...inputs[type], ...uploaded])
+    }
     
     // Update step progress
     setTimeout(updateCurrentStep, 100)
   }
 
-  const removeFile = (type: keyof ReviewInputs, index?: number) => {
-    if (type === 'feedback360') {
+  const removeFile = (type: FileInputType, index?: number) => {
+    if (isSingleFileInput(type)) {
       setInputs(prev => ({ ...prev, [type]: null }))
     } else if (index !== undefined) {
       setInputs(prev => ({
         ...prev,
-        [type]: (prev[type] as File[]).filter((_, i) => i !== index)
+        [type]: (prev[type] as UploadedInput[]).filter((_, i) => i !== index)
       }))
+
+      if (type === 'itpEmployeeScreenshots' || type === 'itpManagerScreenshots') {
+        runITPExtraction(type, inputs[type].filter((_, i) => i !== index))
+      }
     }
     
     setTimeout(updateCurrentStep, 100)
   }
 
-  const handleExport = async () => {
+  const handleCopyText = async () => {
     if (!output) return
 
+    // Manager edits win over the generated text once the review is saved
+    const sections: ReviewSectionText = review ? currentSections(review, output.template.sections) : output.sections
+    const sectionText = output.template.sections.map(section => {
+      const rating = output.ratings[section.key]
+      const ratingLine = section.ratingScale && rating != null
+        ? `Rating: ${rating} / ${section.ratingScale.max}${ratingLabel(section.ratingScale, rating) ? ` (${ratingLabel(section.ratingScale, rating)})` : ''}\n`
+        : ''
+      return `${section.title.toUpperCase()}:\n${ratingLine}${sections[section.key]}`
+    }).join('\n\n')
+
     const reviewText = `PERFORMANCE REVIEW
 Generated on ${new Date().toLocaleDateString()}
 
-GREATEST STRENGTHS:
-${output.strengths}
-
-DEVELOPMENT FEEDBACK:
-${output.developmentFeedback}
-
-GOALS FOR NEXT YEAR:
-${output.goalsNextYear}
-
-OVERALL ASSESSMENT:
-${output.overallAssessment}
+${sectionText}
 
 ---
 Data Sources Used:
@@ -254,15 +782,17 @@ Generated by Review Synthesis App v${VERSION}`
     multiple = true, 
     optional = false,
     accept = "image/*",
+    isUploading = false,
     stepNumber
   }: {
     title: string
-    files: File[] | File | null
+    files: UploadedInput[] | UploadedInput | null
     onUpload: (files: FileList | null) => void
     onRemove: (index?: number) => void
     multiple?: boolean
     optional?: boolean
     accept?: string
+    isUploading?: boolean
     stepNumber: number
   }) => {
     const fileArray = Array.isArray(files) ? files : files ? [files] : []
@@ -294,7 +824,7 @@ Generated by Review Synthesis App v${VERSION}`
           >
             <Camera className="mx-auto h-12 w-12 text-gray-400 mb-4" />
             <p className="text-sm text-gray-600 mb-2">
-              {multiple ? 'Upload screenshots' : 'Upload document'} (click to browse)
+              {isUploading ? 'Uploading...' : `${multiple ? 'Upload screenshots' : 'Upload document'} (click to browse)`}
             </p>
             <div className="inline-flex items-center px-4 py-2 sonance-button-primary rounded-md">
               <Upload className="h-4 w-4 mr-2" />
@@ -311,7 +841,7 @@ Generated by Review Synthesis App v${VERSION}`
                 <div className="flex items-center">
                   <FileText className="h-4 w-4 text-blue-500 mr-2" />
                   <span className="text-sm text-gray-700">{file.name}</span>
-                  <span className="text-xs text-gray-500 ml-2">({(file.size / 1024 / 1024).toFixed(1)} MB)</span>
+                  <span className="text-xs text-gray-500 ml-2">({formatFileSize(file.size)})</span>
                 </div>
                 <button
                   onClick={() => onRemove(index)}
@@ -327,6 +857,20 @@ Generated by Review Synthesis App v${VERSION}`
     )
   }
 
+  // Bias and tone findings for the current text; high-severity ones block finalizing until acknowledged
+  const lintFindings = output ? lintReview(output.sections, output.template.sections, output.evidence) : []
+  const blockingFindings = unacknowledgedFindings(lintFindings, review?.acknowledged_findings ?? [])
+  const lintDraft = (key: string, draft: string) => output
+    ? lintReview({ ...output.sections, [key]: draft }, output.template.sections, output.evidence).filter(f => f.sectionKey === key)
+    : []
+
+  // Section layout while a review streams in, from the template it is being generated with
+  const generationSections = templates.find(t => t.id === templateId)?.latest.sections ||
+    output?.template.sections || STANDARD_SECTIONS
+
+  const formatExtractedScores = (extraction: ResolvedITPScores) =>
+    ITP_DIMENSIONS.map(d => `${ITP_DIMENSION_LABELS[d]}: ${extraction[d].value ?? '?'}${extraction[d].lowConfidence ? ' ⚠' : ''}`).join('  ')
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
       {/* Version Number */}
@@ -384,12 +928,25 @@ Generated by Review Synthesis App v${VERSION}`
         <div className="space-y-6">
           <div className="sonance-card p-6">
             <h2 className="text-xl font-semibold mb-4 text-gray-800">Review Inputs</h2>
+
+            <ReviewSelector
+              employees={employees}
+              cycles={cycles}
+              employeeId={employeeId}
+              cycleId={cycleId}
+              review={review}
+              isSaving={isSaving}
+              onEmployeeChange={setEmployeeId}
+              onCycleChange={setCycleId}
+              onSaveDraft={handleSaveDraft}
+            />
             
             {/* ITP Employee Screenshots */}
             <FileUploadArea
               title="1. ITP Employee Self-Assessment (Screenshots)"
               files={inputs.itpEmployeeScreenshots}
               onUpload={(files) => handleFileUpload(files, 'itpEmployeeScreenshots')}
+              isUploading={uploading === 'itpEmployeeScreenshots'}
               onRemove={(index) => removeFile('itpEmployeeScreenshots', index)}
               multiple={true}
               accept="image/*"
@@ -401,34 +958,76 @@ Generated by Review Synthesis App v${VERSION}`
               title="2. ITP Manager Assessment (Screenshots)"
               files={inputs.itpManagerScreenshots}
               onUpload={(files) => handleFileUpload(files, 'itpManagerScreenshots')}
+              isUploading={uploading === 'itpManagerScreenshots'}
               onRemove={(index) => removeFile('itpManagerScreenshots', index)}
               multiple={true}
               accept="image/*"
               stepNumber={1}
             />
 
+            {extractingITP && (
+              <p className="-mt-4 mb-4 text-xs text-gray-500">Reading scores from screenshots...</p>
+            )}
+            <p className="-mt-4 mb-4 text-xs text-gray-500">
+              Screenshots are sent to the AI provider as images and are not redacted. Type the scores into the grid instead to keep names in them private.
+            </p>
+            <ITPScoreGrid
+              values={itpScores}
+              extraction={{ self: itpExtraction.itpEmployeeScreenshots, manager: itpExtraction.itpManagerScreenshots }}
+              onChange={handleScoreChange}
+            />
+
             {/* 360 Feedback Upload - Optional */}
             <FileUploadArea
               title="3. 360 Feedback Document"
               files={inputs.feedback360}
               onUpload={(files) => handleFileUpload(files, 'feedback360')}
+              isUploading={uploading === 'feedback360'}
               onRemove={() => removeFile('feedback360')}
               multiple={false}
               optional={true}
               accept=".pdf"
               stepNumber={2}
             />
+            {!inputs.feedback360 && review?.feedback_360_text && (
+              <p className="-mt-4 mb-6 text-xs text-gray-500">
+                Saved 360 feedback text will be used. Upload a new PDF to replace it.
+                {review.feedback_360_file_url && (
+                  <button onClick={handleViewFeedback360} className="ml-1 text-blue-600 hover:text-blue-800">
+                    View uploaded PDF
+                  </button>
+                )}
+              </p>
+            )}
 
-            {/* Self Review Screenshots */}
+            {/* Self Review: a document or pasted text */}
             <FileUploadArea
-              title="4. Employee Self Review (Screenshots)"
-              files={inputs.selfReviewScreenshots}
-              onUpload={(files) => handleFileUpload(files, 'selfReviewScreenshots')}
-              onRemove={(index) => removeFile('selfReviewScreenshots', index)}
-              multiple={true}
-              accept="image/*"
+              title="4. Employee Self Review"
+              files={inputs.selfReviewFile}
+              onUpload={(files) => handleFileUpload(files, 'selfReviewFile')}
+              isUploading={uploading === 'selfReviewFile'}
+              onRemove={() => removeFile('selfReviewFile')}
+              multiple={false}
+              accept=".docx,.txt,.md"
               stepNumber={3}
             />
+            <div className="-mt-3 mb-6">
+              <textarea
+                className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                placeholder="...or paste the employee's self review (e.g. from an email)"
+                value={inputs.selfReviewText}
+                disabled={!!inputs.selfReviewFile}
+                onChange={(e) => {
+                  setInputs(prev => ({ ...prev, selfReviewText: e.target.value }))
+                  setTimeout(updateCurrentStep, 100)
+                }}
+              />
+              {inputs.selfReviewFile && (
+                <p className="mt-1 text-xs text-gray-500">
+                  The text of the uploaded document will be used instead. Remove it to use pasted text.
+                </p>
+              )}
+            </div>
 
             {/* Manager Comments */}
             <div className="mb-6">
@@ -460,18 +1059,18 @@ Generated by Review Synthesis App v${VERSION}`
 
             {/* File Size Summary */}
             {(() => {
-              const totalSize = Object.values(inputs).reduce((total, fileOrFiles) => {
-                if (fileOrFiles instanceof File) return total + fileOrFiles.size
-                if (Array.isArray(fileOrFiles)) return total + fileOrFiles.reduce((sum, f) => sum + f.size, 0)
-                return total
-              }, 0)
+              const uploads = [
+                ...inputs.itpEmployeeScreenshots,
+                ...inputs.itpManagerScreenshots,
+                ...(inputs.feedback360 ? [inputs.feedback360] : []),
+                ...(inputs.selfReviewFile ? [inputs.selfReviewFile] : [])
+              ]
+              const totalSize = uploads.reduce((total, file) => total + file.size, 0)
               
-              const totalMB = totalSize / (1024 * 1024)
-              
-              if (totalMB > 0) {
+              if (totalSize > 0) {
                 return (
                   <div className="text-center text-xs text-gray-500 bg-gray-50 rounded p-2">
-                    📁 Total files: {Math.round(totalMB * 10) / 10}MB / 4MB limit
+                    📁 Total files: {formatFileSize(totalSize)}
                   </div>
                 )
               }
@@ -485,7 +1084,7 @@ Generated by Review Synthesis App v${VERSION}`
               </p>
               
               <p className="text-xs text-gray-500 text-center">
-                💡 Tip: If your images are too large, try compressing them or taking smaller screenshots
+                💡 Tip: Screenshots can be up to 10 MB each, 360 feedback PDFs up to 20 MB and self review documents up to 5 MB
               </p>
               
               {error && (
@@ -495,6 +1094,58 @@ Generated by Review Synthesis App v${VERSION}`
                 </div>
               )}
               
+              {templates.length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <label htmlFor="template" className="text-sm text-gray-600">Template:</label>
+                  <select
+                    id="template"
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    disabled={isGenerating}
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {!templates.some(t => t.is_default) && <option value="">Standard review</option>}
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} (v{template.latest.version}){template.is_default ? ' - default' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {employeeId && cycleId && (
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={includePriorReview}
+                    onChange={(e) => setIncludePriorReview(e.target.checked)}
+                    disabled={isGenerating}
+                    className="mr-2"
+                  />
+                  Follow up on last cycle&apos;s review (goal progress and ITP trend)
+                </label>
+              )}
+
+              {providers.length > 0 && (
+                <div className="flex items-center space-x-2">
+                  <label htmlFor="provider" className="text-sm text-gray-600">AI model:</label>
+                  <select
+                    id="provider"
+                    value={providerName}
+                    onChange={(e) => setProviderName(e.target.value)}
+                    disabled={isGenerating}
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {providers.map(provider => (
+                      <option key={provider.name} value={provider.name} disabled={!provider.configured}>
+                        {provider.label} ({provider.model}){provider.configured ? '' : ' - not configured'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <button
                 onClick={handleGenerateReview}
                 disabled={isGenerating}
@@ -542,21 +1193,46 @@ Generated by Review Synthesis App v${VERSION}`
           <div className="sonance-card p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold text-gray-800">Generated Review</h2>
-              {output && (
-                <button 
-                  onClick={handleExport}
-                  className="flex items-center space-x-2 px-4 py-2 rounded-md text-white font-medium transition-all duration-200"
-                  style={{ backgroundColor: '#10B981' }}
-                  onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#059669'}
-                  onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#10B981'}
-                >
-                  <Download className="h-4 w-4" />
-                  <span>Export</span>
-                </button>
-              )}
+              <div className="flex items-center space-x-2">
+                {review?.status === 'generated' && (
+                  <button
+                    onClick={() => handleStatusChange('reviewed')}
+                    disabled={isSaving}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Mark as Reviewed
+                  </button>
+                )}
+                {review?.status === 'reviewed' && (
+                  <button
+                    onClick={() => handleStatusChange('finalized')}
+                    disabled={isSaving || blockingFindings.length > 0}
+                    title={blockingFindings.length > 0
+                      ? `Acknowledge ${blockingFindings.length} high-severity finding${blockingFindings.length === 1 ? '' : 's'} to finalize`
+                      : undefined}
+                    className="px-3 py-2 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+                  >
+                    Finalize
+                  </button>
+                )}
+                {output && <ExportMenu reviewId={review?.id ?? null} onCopyText={handleCopyText} />}
+              </div>
             </div>
 
-            {output ? (
+            {streamedSections ? (
+              <div className="space-y-6">
+                {generationSections.map(section => (
+                  <div key={section.key}>
+                    <h3 className="font-medium text-gray-700 mb-2">{section.title}</h3>
+                    <div className="bg-gray-50 p-4 rounded-md">
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                        {streamedSections[section.key] || <span className="text-gray-400">Writing...</span>}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : output ? (
               <div className="space-y-6">
                 {/* Data Sources Used */}
                 <div className="bg-blue-50 p-3 rounded-lg">
@@ -575,48 +1251,83 @@ Generated by Review Synthesis App v${VERSION}`
                     <h4 className="font-medium text-gray-800 mb-2">Extracted Data Summary:</h4>
                     <div className="text-sm text-gray-600 space-y-1">
                       {output.extractedData.itpEmployeeScores && (
-                        <div>Employee ITP: H:{output.extractedData.itpEmployeeScores.humble} Hu:{output.extractedData.itpEmployeeScores.hungry} S:{output.extractedData.itpEmployeeScores.smart}</div>
+                        <div>Employee ITP: {formatExtractedScores(output.extractedData.itpEmployeeScores)}</div>
                       )}
                       {output.extractedData.itpManagerScores && (
-                        <div>Manager ITP: H:{output.extractedData.itpManagerScores.humble} Hu:{output.extractedData.itpManagerScores.hungry} S:{output.extractedData.itpManagerScores.smart}</div>
+                        <div>Manager ITP: {formatExtractedScores(output.extractedData.itpManagerScores)}</div>
                       )}
-                      {output.extractedData.feedback360Summary && (
-                        <div>360 Feedback: {output.extractedData.feedback360Summary}</div>
+                      {output.extractedData.feedback360Analysis ? (
+                        <Feedback360ThemesPanel analysis={output.extractedData.feedback360Analysis} />
+                      ) : output.extractedData.feedback360Summary && (
+                        <div>
+                          360 Feedback ({output.extractedData.feedback360Pages !== null
+                            ? `${output.extractedData.feedback360Pages} page${output.extractedData.feedback360Pages === 1 ? '' : 's'}`
+                            : 'saved text'}): {output.extractedData.feedback360Summary.length > 300
+                            ? `${output.extractedData.feedback360Summary.substring(0, 300)}...`
+                            : output.extractedData.feedback360Summary}
+                        </div>
                       )}
-                      {output.extractedData.selfReviewSummary && (
-                        <div>Self Review: {output.extractedData.selfReviewSummary}</div>
+                      {output.extractedData.selfReviewText && (
+                        <div>Self Review: {output.extractedData.selfReviewText.length > 300
+                          ? `${output.extractedData.selfReviewText.substring(0, 300)}...`
+                          : output.extractedData.selfReviewText}</div>
                       )}
                     </div>
+                    {output.extractedData.gapAnalysis && (
+                      <div className="mt-4 pt-3 border-t border-gray-200">
+                        <h5 className="text-sm font-medium text-gray-700 mb-2">Self vs. Manager Gaps</h5>
+                        <ITPGapChart analysis={output.extractedData.gapAnalysis} />
+                      </div>
+                    )}
                   </div>
                 )}
 
-                <div>
-                  <h3 className="font-medium text-gray-700 mb-2">Greatest Strengths</h3>
-                  <div className="bg-gray-50 p-4 rounded-md">
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{output.strengths}</p>
-                  </div>
-                </div>
-
-                <div>
-                  <h3 className="font-medium text-gray-700 mb-2">Development Feedback</h3>
-                  <div className="bg-gray-50 p-4 rounded-md">
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{output.developmentFeedback}</p>
+                {output.template.sections.map(section => (
+                  <div key={section.key}>
+                    <EditableSection
+                      title={section.title}
+                      text={output.sections[section.key] || ''}
+                      aiDraft={review ? review.generated_sections[section.key] ?? null : null}
+                      evidence={output.evidence?.[section.key]}
+                      findings={lintFindings.filter(f => f.sectionKey === section.key)}
+                      acknowledgedFindings={review?.acknowledged_findings}
+                      lint={(draft) => lintDraft(section.key, draft)}
+                      onAcknowledgeFinding={review ? handleAcknowledgeFinding : undefined}
+                      onSave={(text) => handleSaveSection(section.key, text)}
+                      onRegenerate={(instruction) => handleRegenerateSection(section.key, instruction)}
+                    />
+                    {section.ratingScale && (
+                      <div className="mt-2 flex items-center space-x-2">
+                        <label htmlFor={`rating-${section.key}`} className="text-sm text-gray-600">Rating:</label>
+                        <select
+                          id={`rating-${section.key}`}
+                          value={output.ratings[section.key] ?? ''}
+                          onChange={(e) => handleRatingChange(section.key, Number(e.target.value))}
+                          disabled={isSaving}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="" disabled>Not rated</option>
+                          {Array.from({ length: section.ratingScale.max - section.ratingScale.min + 1 }, (_, i) => section.ratingScale!.min + i).map(value => (
+                            <option key={value} value={value}>
+                              {value}{ratingLabel(section.ratingScale!, value) ? ` - ${ratingLabel(section.ratingScale!, value)}` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                   </div>
-                </div>
+                ))}
 
-                <div>
-                  <h3 className="font-medium text-gray-700 mb-2">Goals for Next Year</h3>
-                  <div className="bg-gray-50 p-4 rounded-md">
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{output.goalsNextYear}</p>
-                  </div>
-                </div>
+                <GoalProgressPanel progress={output.goalProgress || []} />
 
-                <div>
-                  <h3 className="font-medium text-gray-700 mb-2">Overall Assessment</h3>
-                  <div className="bg-gray-50 p-4 rounded-md">
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{output.overallAssessment}</p>
-                  </div>
-                </div>
+                {review && (
+                  <ReviewHistoryPanel
+                    reviewId={review.id}
+                    sections={output.template.sections}
+                    refreshKey={review.updated_at}
+                    onRevert={applySavedSections}
+                  />
+                )}
               </div>
             ) : (
               <div className="text-center py-12">
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Pencil, RefreshCw } from 'lucide-react'
+import type { SectionClaim } from '@/lib/review-evidence'
+import { applySuggestion, LintFinding } from '@/lib/review-lint'
+import EvidenceText from './EvidenceText'
+import LintFindings from './LintFindings'
+
+// Common rewrite requests offered as one-click guidance
+const QUICK_INSTRUCTIONS = ['More specific', 'Softer tone', 'More concise']
+
+export default function EditableSection({
+  title,
+  text,
+  aiDraft,
+  evidence,
+  findings = [],
+  acknowledgedFindings,
+  lint,
+  onAcknowledgeFinding,
+  onSave,
+  onRegenerate
+}: {
+  title: string
+  text: string
+  aiDraft?: string | null
+  // Sources for the generated claims; without it the text is shown plain
+  evidence?: SectionClaim[] | null
+  // Bias and tone findings for the saved text
+  findings?: LintFinding[]
+  acknowledgedFindings?: string[]
+  // Checks the draft while editing
+  lint?: (draft: string) => LintFinding[]
+  onAcknowledgeFinding?: (finding: LintFinding) => void
+  onSave: (text: string) => Promise<void>
+  onRegenerate?: (instruction: string) => Promise<void>
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(text)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false)
+  const [instruction, setInstruction] = useState('')
+  const [isRegenerating, setIsRegenerating] = useState(false)
+
+  // Pick up new text (regeneration, revert) while not in the middle of an edit
+  useEffect(() => {
+    if (!isEditing) setDraft(text)
+  }, [text, isEditing])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(draft)
+      setIsEditing(false)
+    } catch {
+      // The page reports the error; stay in edit mode so the text isn't lost
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRegenerate = async (guidance: string) => {
+    if (!onRegenerate) return
+    setIsRegenerating(true)
+    try {
+      await onRegenerate(guidance)
+      setIsRegenerateOpen(false)
+      setInstruction('')
+    } catch {
+      // The page reports the error; keep the guidance so it can be retried
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  const isEdited = aiDraft != null && text !== aiDraft
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-700">
+          {title}
+          {isEdited && <span className="ml-2 text-xs font-normal text-blue-600">(edited)</span>}
+        </h3>
+        {!isEditing && (
+          <div className="flex items-center space-x-3">
+            {onRegenerate && (
+              <button
+                onClick={() => setIsRegenerateOpen(!isRegenerateOpen)}
+                disabled={isRegenerating}
+                className="inline-flex items-center text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${isRegenerating ? 'animate-spin' : ''}`} />
+                {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={isRegenerating}
+              className="inline-flex items-center text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </button>
+          </div>
+        )}
+      </div>
+      {isRegenerateOpen && !isEditing && (
+        <div className="mb-2 p-3 border border-gray-200 rounded-md">
+          <div className="flex flex-wrap gap-2 mb-2">
+            {QUICK_INSTRUCTIONS.map(quick => (
+              <button
+                key={quick}
+                onClick={() => handleRegenerate(quick)}
+                disabled={isRegenerating}
+                className="px-2 py-1 text-xs border border-gray-300 rounded-full text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {quick}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Optional guidance, e.g. mention the migration project"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              disabled={isRegenerating}
+            />
+            <button
+              onClick={() => handleRegenerate(instruction)}
+              disabled={isRegenerating}
+              className="px-3 py-1.5 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+            >
+              Regenerate
+            </button>
+          </div>
+        </div>
+      )}
+      {isEditing ? (
+        <div>
+          <textarea
+            className="w-full h-48 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          {lint && (
+            <LintFindings
+              findings={lint(draft)}
+              onApply={(finding) => setDraft(applySuggestion(draft, finding))}
+            />
+          )}
+          <div className="mt-2 flex justify-end space-x-2">
+            <button
+              onClick={() => { setDraft(text); setIsEditing(false) }}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || draft === text}
+              className="px-3 py-1.5 text-sm sonance-button-primary rounded-md disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-gray-50 p-4 rounded-md">
+          {evidence ? (
+            <EvidenceText text={text} claims={evidence} />
+          ) : (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{text}</p>
+          )}
+          <LintFindings findings={findings} acknowledged={acknowledgedFindings} onAcknowledge={onAcknowledgeFinding} />
+        </div>
+      )}
+    </div>
+  )
+}
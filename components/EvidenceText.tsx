@@ -0,0 +1,68 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { EVIDENCE_SOURCE_LABELS, SectionClaim, findClaim, isSupported, splitSentences } from '@/lib/review-evidence'
+
+function sourceSummary(claim: SectionClaim) {
+  if (!isSupported(claim)) return 'No supporting input found'
+  return claim.sources.map(s => `${EVIDENCE_SOURCE_LABELS[s.source]}: "${s.quote}"`).join('\n')
+}
+
+// Section text with each sentence linked to the inputs it came from: hovering shows the sources,
+// clicking pins them below the text. Claims nothing in the inputs supports are highlighted.
+export default function EvidenceText({ text, claims }: { text: string; claims: SectionClaim[] }) {
+  const [selected, setSelected] = useState<number | null>(null)
+
+  useEffect(() => {
+    setSelected(null)
+  }, [text])
+
+  const sentences = splitSentences(text)
+  const matched = sentences.map(sentence => findClaim(sentence, claims))
+  const unsupportedCount = matched.filter(claim => claim && !isSupported(claim)).length
+  const selectedClaim = selected !== null ? matched[selected] : null
+
+  return (
+    <div>
+      {unsupportedCount > 0 && (
+        <p className="mb-2 flex items-center text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          {unsupportedCount} highlighted claim{unsupportedCount === 1 ? ' is' : 's are'} not supported by the inputs
+        </p>
+      )}
+      <p className="text-sm text-gray-700 whitespace-pre-wrap">
+        {sentences.map((sentence, index) => {
+          const claim = matched[index]
+          if (!claim) return <span key={index}>{sentence}</span>
+          return (
+            <span
+              key={index}
+              title={sourceSummary(claim)}
+              onClick={() => setSelected(selected === index ? null : index)}
+              className={`cursor-pointer rounded ${isSupported(claim)
+                ? `border-b border-dotted border-blue-400 hover:bg-blue-100 ${selected === index ? 'bg-blue-100' : ''}`
+                : `bg-amber-100 hover:bg-amber-200 ${selected === index ? 'bg-amber-200' : ''}`}`}
+            >
+              {sentence}
+            </span>
+          )
+        })}
+      </p>
+      {selectedClaim && (
+        <div className="mt-3 p-3 bg-white border border-gray-200 rounded-md space-y-2">
+          {isSupported(selectedClaim) ? selectedClaim.sources.map((source, index) => (
+            <div key={index} className="text-xs">
+              <span className="font-medium text-gray-700">{EVIDENCE_SOURCE_LABELS[source.source]}</span>
+              <p className="text-gray-600 italic">&ldquo;{source.quote}&rdquo;</p>
+            </div>
+          )) : (
+            <p className="text-xs text-amber-700">
+              No supporting input found for this claim. Check it against your inputs, or edit or regenerate the section.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import type { ExportFormat } from '@/lib/export'
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: 'PDF document',
+  docx: 'Word document (DOCX)'
+}
+
+// Formatted exports are rendered from the saved review, so they need a review id;
+// copying plain text works for unsaved output too
+export default function ExportMenu({
+  reviewId,
+  onCopyText
+}: {
+  reviewId: string | null
+  onCopyText: () => Promise<void>
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [includeITP, setIncludeITP] = useState(true)
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDownload = async (format: ExportFormat) => {
+    if (!reviewId) return
+    setDownloading(format)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/export?format=${format}&itp=${includeITP}`)
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.details || result.error)
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `performance-review.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      a.click()
+      URL.revokeObjectURL(url)
+      setIsOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-4 py-2 rounded-md text-white font-medium transition-all duration-200"
+        style={{ backgroundColor: '#10B981' }}
+        onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#059669'}
+        onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#10B981'}
+      >
+        <Download className="h-4 w-4" />
+        <span>Export</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-64 p-3 bg-white border border-gray-200 rounded-md shadow-lg space-y-2">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={!reviewId || downloading !== null}
+              className="w-full text-left px-2 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              {downloading === format ? 'Preparing...' : FORMAT_LABELS[format]}
+            </button>
+          ))}
+          <label className="flex items-center px-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={includeITP}
+              onChange={(e) => setIncludeITP(e.target.checked)}
+            />
+            Include ITP score table
+          </label>
+          {!reviewId && (
+            <p className="px-2 text-xs text-gray-500">Select an employee and cycle to save the review before exporting a document.</p>
+          )}
+          <div className="border-t border-gray-100 pt-2">
+            <button
+              onClick={async () => { await onCopyText(); setIsOpen(false) }}
+              className="w-full text-left px-2 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-50"
+            >
+              Copy as plain text
+            </button>
+          </div>
+          {error && <p className="px-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
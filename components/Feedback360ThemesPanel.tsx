@@ -0,0 +1,48 @@
+'use client'
+
+import { MessageSquare } from 'lucide-react'
+import {
+  formatRaterGroupCounts,
+  raterGroupCounts,
+  themeQuotes,
+  Feedback360Analysis,
+  ThemeSentiment
+} from '@/lib/feedback360-analysis'
+
+const SENTIMENT_CLASSES: Record<ThemeSentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  negative: 'bg-red-100 text-red-800',
+  mixed: 'bg-amber-100 text-amber-800',
+  neutral: 'bg-gray-100 text-gray-700'
+}
+
+// Recurring themes in the 360 feedback, with how often and by whom each was raised
+export default function Feedback360ThemesPanel({ analysis }: { analysis: Feedback360Analysis }) {
+  return (
+    <div>
+      <div className="flex items-center text-gray-700 mb-1">
+        <MessageSquare className="h-4 w-4 mr-1.5" />
+        360 Feedback: {analysis.comments.length} comments ({formatRaterGroupCounts(raterGroupCounts(analysis.comments))})
+      </div>
+      <ul className="space-y-2 ml-5">
+        {analysis.themes.map((theme, index) => (
+          <li key={index}>
+            <div className="flex items-center flex-wrap gap-x-2">
+              <span className="font-medium text-gray-800">{theme.theme}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SENTIMENT_CLASSES[theme.sentiment]}`}>
+                {theme.sentiment}
+              </span>
+              <span className="text-xs text-gray-500">
+                {theme.count} mention{theme.count === 1 ? '' : 's'}: {formatRaterGroupCounts(theme.raterGroups)}
+              </span>
+            </div>
+            {theme.summary && <p className="text-gray-600">{theme.summary}</p>}
+            {themeQuotes(theme, analysis).map((quote, quoteIndex) => (
+              <p key={quoteIndex} className="text-xs text-gray-500 italic">&ldquo;{quote}&rdquo;</p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { Target } from 'lucide-react'
+import { GOAL_STATUS_LABELS, GoalProgress, GoalStatus } from '@/lib/goal-progress'
+
+const STATUS_CLASSES: Record<GoalStatus, string> = {
+  achieved: 'bg-green-100 text-green-800',
+  partially_achieved: 'bg-amber-100 text-amber-800',
+  not_achieved: 'bg-red-100 text-red-800',
+  no_evidence: 'bg-gray-100 text-gray-700'
+}
+
+// The model's assessment of each goal from the employee's previous review
+export default function GoalProgressPanel({ progress }: { progress: GoalProgress[] }) {
+  if (progress.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="font-medium text-gray-700 mb-2 flex items-center">
+        <Target className="h-4 w-4 mr-1.5" />
+        Progress on last year&apos;s goals
+      </h3>
+      <ul className="bg-gray-50 p-4 rounded-md space-y-3">
+        {progress.map((item, index) => (
+          <li key={index} className="text-sm">
+            <div className="flex items-start justify-between">
+              <span className="font-medium text-gray-800">{item.goal}</span>
+              <span className={`ml-3 px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_CLASSES[item.status]}`}>
+                {GOAL_STATUS_LABELS[item.status]}
+              </span>
+            </div>
+            <p className="text-gray-600 mt-1">{item.assessment}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import { ITP_DIMENSION_LABELS, ITP_MAX_SCORE } from '@/lib/itp'
+import { GAP_CLASSIFICATION_LABELS, GapAnalysis, GapClassification } from '@/lib/gap-analysis'
+
+const CLASSIFICATION_STYLES: Record<GapClassification, string> = {
+  blind_spot: 'bg-red-100 text-red-800',
+  hidden_strength: 'bg-green-100 text-green-800',
+  aligned: 'bg-gray-100 text-gray-700'
+}
+
+export default function ITPGapChart({ analysis }: { analysis: GapAnalysis }) {
+  return (
+    <div className="space-y-3">
+      {analysis.dimensions.map(gap => (
+        <div key={gap.dimension}>
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="font-medium text-gray-700">{ITP_DIMENSION_LABELS[gap.dimension]}</span>
+            <span className={`px-2 py-0.5 rounded-full ${CLASSIFICATION_STYLES[gap.classification]}`}>
+              {GAP_CLASSIFICATION_LABELS[gap.classification]} ({gap.delta > 0 ? '+' : ''}{gap.delta})
+            </span>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center">
+              <span className="w-16 text-xs text-gray-500">Self</span>
+              <div className="flex-1 h-2 bg-gray-200 rounded">
+                <div className="h-2 rounded bg-blue-500" style={{ width: `${(gap.self / ITP_MAX_SCORE) * 100}%` }} />
+              </div>
+              <span className="w-6 text-right text-xs text-gray-600">{gap.self}</span>
+            </div>
+            <div className="flex items-center">
+              <span className="w-16 text-xs text-gray-500">Manager</span>
+              <div className="flex-1 h-2 bg-gray-200 rounded">
+                <div className="h-2 rounded bg-gray-600" style={{ width: `${(gap.manager / ITP_MAX_SCORE) * 100}%` }} />
+              </div>
+              <span className="w-6 text-right text-xs text-gray-600">{gap.manager}</span>
+            </div>
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400">
+        Blind spot: self-rating {analysis.thresholds.blindSpot}+ above manager. Hidden strength: manager rating {analysis.thresholds.hiddenStrength}+ above self.
+      </p>
+    </div>
+  )
+}
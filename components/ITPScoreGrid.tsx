@@ -0,0 +1,106 @@
+'use client'
+
+import { AlertTriangle, Camera } from 'lucide-react'
+import { ITPDimension, ITP_DIMENSIONS, ITP_DIMENSION_LABELS, ITP_MAX_SCORE, ITP_MIN_SCORE, validateITPScoreText } from '@/lib/itp'
+import type { ITPExtraction } from '@/lib/itp-extraction'
+
+export type ITPScoreRow = 'self' | 'manager'
+
+export interface ITPScoreCell {
+  value: string
+  source: 'manual' | 'screenshot'
+}
+
+export type ITPScoreGridValues = Record<ITPScoreRow, Record<ITPDimension, ITPScoreCell>>
+
+export const ITP_SCORE_ROWS: { id: ITPScoreRow; label: string }[] = [
+  { id: 'self', label: 'Employee Self-Assessment' },
+  { id: 'manager', label: 'Manager Assessment' }
+]
+
+export function emptyITPScoreGrid(): ITPScoreGridValues {
+  const emptyRow = () => ({
+    humble: { value: '', source: 'manual' as const },
+    hungry: { value: '', source: 'manual' as const },
+    smart: { value: '', source: 'manual' as const }
+  })
+  return { self: emptyRow(), manager: emptyRow() }
+}
+
+export function hasITPScoreErrors(values: ITPScoreGridValues) {
+  return ITP_SCORE_ROWS.some(row =>
+    ITP_DIMENSIONS.some(d => validateITPScoreText(values[row.id][d].value) !== null)
+  )
+}
+
+export default function ITPScoreGrid({
+  values,
+  extraction,
+  onChange
+}: {
+  values: ITPScoreGridValues
+  extraction: Record<ITPScoreRow, ITPExtraction | null>
+  onChange: (row: ITPScoreRow, dimension: ITPDimension, value: string) => void
+}) {
+  return (
+    <div className="mb-6">
+      <h3 className="font-medium text-gray-700 mb-3">ITP Scores ({ITP_MIN_SCORE}-{ITP_MAX_SCORE})</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal pb-2"></th>
+            {ITP_DIMENSIONS.map(d => (
+              <th key={d} className="font-normal pb-2 px-1">{ITP_DIMENSION_LABELS[d]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ITP_SCORE_ROWS.map(row => (
+            <tr key={row.id}>
+              <td className="pr-2 py-1 text-gray-700">{row.label}</td>
+              {ITP_DIMENSIONS.map(d => {
+                const cell = values[row.id][d]
+                const validationError = validateITPScoreText(cell.value)
+                const lowConfidence = cell.source === 'screenshot' && extraction[row.id]?.[d].lowConfidence
+
+                return (
+                  <td key={d} className="px-1 py-1 align-top">
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min={ITP_MIN_SCORE}
+                        max={ITP_MAX_SCORE}
+                        step={1}
+                        value={cell.value}
+                        onChange={(e) => onChange(row.id, d, e.target.value)}
+                        className={`w-full px-2 py-1 border rounded-md focus:ring-2 focus:ring-blue-500 ${
+                          validationError ? 'border-red-400 bg-red-50' :
+                          lowConfidence ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+                        }`}
+                        aria-label={`${row.label} ${ITP_DIMENSION_LABELS[d]}`}
+                      />
+                      {cell.source === 'screenshot' && (
+                        <span
+                          className="absolute right-6 top-1.5"
+                          title={lowConfidence ? 'Read from screenshot with low confidence - please verify' : 'Read from screenshot'}
+                        >
+                          {lowConfidence
+                            ? <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                            : <Camera className="w-4 h-4 text-gray-400" />}
+                        </span>
+                      )}
+                    </div>
+                    {validationError && <p className="text-xs text-red-600 mt-1">{validationError}</p>}
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">
+        Scores read from screenshots are filled in automatically and can be overwritten.
+      </p>
+    </div>
+  )
+}
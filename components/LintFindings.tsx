@@ -0,0 +1,67 @@
+'use client'
+
+import { AlertTriangle, Check } from 'lucide-react'
+import { FINDING_SEVERITY_LABELS, FindingSeverity, LINT_RULE_LABELS, LintFinding } from '@/lib/review-lint'
+
+const SEVERITY_CLASSES: Record<FindingSeverity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-gray-100 text-gray-700'
+}
+
+// Bias and tone findings for one section, with their suggested rewrites
+export default function LintFindings({
+  findings,
+  acknowledged = [],
+  onApply,
+  onAcknowledge
+}: {
+  findings: LintFinding[]
+  acknowledged?: string[]
+  // Applies the finding's replacement; shown for findings that have one
+  onApply?: (finding: LintFinding) => void
+  // Shown for unacknowledged high-severity findings
+  onAcknowledge?: (finding: LintFinding) => void
+}) {
+  if (findings.length === 0) return null
+
+  return (
+    <ul className="mt-2 space-y-1.5">
+      {findings.map((finding, index) => {
+        const isAcknowledged = acknowledged.includes(finding.id)
+        return (
+          <li key={`${finding.id}-${index}`} className="flex items-start justify-between text-xs">
+            <div className="flex items-start">
+              <AlertTriangle className={`h-3 w-3 mr-1.5 mt-0.5 flex-shrink-0 ${finding.severity === 'high' ? 'text-red-600' : 'text-amber-600'}`} />
+              <div>
+                <span className={`px-1.5 py-0.5 rounded font-medium mr-1.5 ${SEVERITY_CLASSES[finding.severity]}`}>
+                  {FINDING_SEVERITY_LABELS[finding.severity]}
+                </span>
+                <span className="font-medium text-gray-700">{LINT_RULE_LABELS[finding.rule]}</span>
+                {finding.text && <span className="text-gray-700">: &ldquo;{finding.text}&rdquo;</span>}
+                <span className="text-gray-600"> - {finding.message}. {finding.suggestion}</span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+              {onApply && finding.replacement !== null && (
+                <button onClick={() => onApply(finding)} className="text-blue-600 hover:underline">
+                  Use &ldquo;{finding.replacement}&rdquo;
+                </button>
+              )}
+              {finding.severity === 'high' && (isAcknowledged ? (
+                <span className="inline-flex items-center text-green-700">
+                  <Check className="h-3 w-3 mr-0.5" />
+                  Acknowledged
+                </span>
+              ) : onAcknowledge && (
+                <button onClick={() => onAcknowledge(finding)} className="text-gray-600 hover:underline">
+                  Acknowledge
+                </button>
+              ))}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import type { Review } from '@/lib/supabase'
+import type { ReviewHistoryEntry } from '@/lib/review-history'
+import type { ReviewSection } from '@/lib/review-sections'
+import type { DiffPart } from '@/lib/text-diff'
+
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  created: 'Created',
+  generated: 'AI draft generated',
+  regenerated: 'Section regenerated',
+  edited: 'Edited',
+  reverted: 'Reverted',
+  acknowledged: 'Findings acknowledged',
+  finalized: 'Finalized',
+  reopened: 'Reopened',
+  employee_responded: 'Employee responded',
+  employee_acknowledged: 'Employee acknowledged'
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="text-xs text-gray-700 whitespace-pre-wrap">
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={part.type === 'added' ? 'bg-green-100 text-green-900' :
+            part.type === 'removed' ? 'bg-red-100 text-red-900 line-through' : ''}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+export default function ReviewHistoryPanel({
+  reviewId,
+  sections,
+  refreshKey,
+  onRevert
+}: {
+  reviewId: string
+  // The review template's sections, for titles; changes to sections no longer in it show their key
+  sections: ReviewSection[]
+  refreshKey: string
+  onRevert: (review: Review) => void
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [history, setHistory] = useState<ReviewHistoryEntry[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/reviews/${reviewId}/history`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        setHistory(result.history)
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history')
+      }
+    }
+    loadHistory()
+  }, [isOpen, reviewId, refreshKey])
+
+  const handleRevert = async (historyId: string) => {
+    if (!confirm('Restore the review text from this version?')) return
+    setRevertingId(historyId)
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      onRevert(result.review)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert')
+    }
+    setRevertingId(null)
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center text-sm text-gray-600 hover:text-blue-600"
+      >
+        <History className="h-4 w-4 mr-1" />
+        {isOpen ? 'Hide history' : 'View history'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {history.length === 0 && !error && <p className="text-xs text-gray-500">No changes recorded yet.</p>}
+          {history.map(entry => {
+            const changedFields = Object.keys(entry.changes?.fields || {}).map(key => ({
+              key,
+              title: sections.find(s => s.key === key)?.title || key
+            }))
+            const isExpanded = expandedId === entry.id
+
+            return (
+              <div key={entry.id} className="bg-gray-50 rounded-md p-3">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="text-left text-xs text-gray-700"
+                  >
+                    <span className="font-medium">{CHANGE_TYPE_LABELS[entry.change_type] || entry.change_type}</span>
+                    {' by '}{entry.changed_by_name || 'Unknown user'}
+                    {' · '}{new Date(entry.created_at).toLocaleString()}
+                    {changedFields.length > 0 && (
+                      <span className="text-gray-500"> · {changedFields.map(s => s.title).join(', ')}</span>
+                    )}
+                  </button>
+                  {entry.changes?.snapshot && (
+                    <button
+                      onClick={() => handleRevert(entry.id)}
+                      disabled={revertingId !== null}
+                      className="inline-flex items-center text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      {revertingId === entry.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+
+                {entry.changes?.employeeResponse && (
+                  <p className="mt-2 text-xs text-gray-700 whitespace-pre-wrap">{entry.changes.employeeResponse}</p>
+                )}
+
+                {isExpanded && changedFields.map(section => (
+                  <div key={section.key} className="mt-2">
+                    <p className="text-xs font-medium text-gray-600 mb-1">{section.title} (compared with AI draft)</p>
+                    <DiffText parts={entry.changes!.fields[section.key].diffFromDraft} />
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { Save } from 'lucide-react'
+import type { Employee, Review, ReviewCycle } from '@/lib/supabase'
+import { REVIEW_STATUS_LABELS } from '@/lib/reviews'
+import { isReviewLocked } from '@/lib/review-cycles'
+
+export type EmployeeOption = Pick<Employee, 'id' | 'name' | 'position' | 'department'>
+
+export default function ReviewSelector({
+  employees,
+  cycles,
+  employeeId,
+  cycleId,
+  review,
+  isSaving,
+  onEmployeeChange,
+  onCycleChange,
+  onSaveDraft
+}: {
+  employees: EmployeeOption[]
+  cycles: ReviewCycle[]
+  employeeId: string
+  cycleId: string
+  review: Review | null
+  isSaving: boolean
+  onEmployeeChange: (id: string) => void
+  onCycleChange: (id: string) => void
+  onSaveDraft: () => void
+}) {
+  const cycle = cycles.find(c => c.id === cycleId)
+  const isLocked = !!cycle && isReviewLocked(cycle, review)
+
+  return (
+    <div className="mb-6 pb-6 border-b border-gray-200">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Employee</span>
+          <select
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            value={employeeId}
+            onChange={(e) => onEmployeeChange(e.target.value)}
+          >
+            <option value="">Select an employee...</option>
+            {employees.map(employee => (
+              <option key={employee.id} value={employee.id}>
+                {employee.name}{employee.position ? ` - ${employee.position}` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Review Cycle</span>
+          <select
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+            value={cycleId}
+            onChange={(e) => onCycleChange(e.target.value)}
+          >
+            <option value="">Select a cycle...</option>
+            {cycles.map(cycle => (
+              <option key={cycle.id} value={cycle.id}>{cycle.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {employeeId && cycleId && (
+        <div className="mt-3 flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Status:{' '}
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+              {review ? REVIEW_STATUS_LABELS[review.status] : 'Not started'}
+            </span>
+            {review && (
+              <span className="ml-2 text-xs text-gray-400">
+                Last saved {new Date(review.updated_at).toLocaleString()}
+              </span>
+            )}
+          </span>
+          <button
+            onClick={onSaveDraft}
+            disabled={isSaving || isLocked}
+            className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-1" />
+            {isSaving ? 'Saving...' : 'Save Draft'}
+          </button>
+        </div>
+      )}
+
+      {employeeId && isLocked && (
+        <p className="mt-3 text-sm text-amber-700">
+          {cycle!.name} is closed, so this review is read-only. Ask an admin to reopen it to make changes.
+        </p>
+      )}
+    </div>
+  )
+}
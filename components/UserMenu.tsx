@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { LogOut } from 'lucide-react'
+import { getBrowserSupabase } from '@/lib/supabase'
+
+export default function UserMenu() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [email, setEmail] = useState<string | null>(null)
+  const [isAdmin, setIsAdmin] = useState(false)
+
+  // Re-checked on navigation so the header updates after signing in or out
+  useEffect(() => {
+    const client = getBrowserSupabase()
+    client.auth.getUser().then(async ({ data }) => {
+      setEmail(data.user?.email ?? null)
+      if (!data.user) {
+        setIsAdmin(false)
+        return
+      }
+      const { data: profile } = await client.from('users').select('role').eq('id', data.user.id).maybeSingle()
+      setIsAdmin(profile?.role === 'admin')
+    })
+  }, [pathname])
+
+  const handleSignOut = async () => {
+    await getBrowserSupabase().auth.signOut()
+    setEmail(null)
+    setIsAdmin(false)
+    router.push('/login')
+    router.refresh()
+  }
+
+  if (!email) return null
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Link href="/dashboard" className={`text-sm hover:text-blue-600 ${pathname === '/dashboard' ? 'text-blue-600' : 'text-gray-600'}`}>
+        Team
+      </Link>
+      <Link href="/" className={`text-sm hover:text-blue-600 ${pathname === '/' ? 'text-blue-600' : 'text-gray-600'}`}>
+        Write review
+      </Link>
+      <Link href="/my-reviews" className={`text-sm hover:text-blue-600 ${pathname === '/my-reviews' ? 'text-blue-600' : 'text-gray-600'}`}>
+        My reviews
+      </Link>
+      {isAdmin && (
+        <Link href="/admin/cycles" className={`text-sm hover:text-blue-600 ${pathname === '/admin/cycles' ? 'text-blue-600' : 'text-gray-600'}`}>
+          Cycles
+        </Link>
+      )}
+      {isAdmin && (
+        <Link href="/admin/templates" className={`text-sm hover:text-blue-600 ${pathname === '/admin/templates' ? 'text-blue-600' : 'text-gray-600'}`}>
+          Templates
+        </Link>
+      )}
+      <span className="text-sm text-gray-600">{email}</span>
+      <button
+        onClick={handleSignOut}
+        className="inline-flex items-center text-sm text-gray-500 hover:text-blue-600"
+      >
+        <LogOut className="h-4 w-4 mr-1" />
+        Sign out
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+// Session-aware Supabase access for route handlers. Queries made with the returned
+// client run as the signed-in user, so the row level security policies apply.
+
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+
+export class AuthError extends Error {
+  status: number
+
+  constructor(message = 'Not signed in', status = 401) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+  }
+}
+
+export interface AuthContext {
+  client: SupabaseClient
+  user: User
+}
+
+export function getRouteSupabase() {
+  return createRouteHandlerClient({ cookies })
+}
+
+export async function requireUser(): Promise<AuthContext> {
+  const client = getRouteSupabase()
+  const { data: { user }, error } = await client.auth.getUser()
+  if (error || !user) throw new AuthError()
+  return { client, user }
+}
+
+// Cycle administration is limited to users with role 'admin'
+export async function requireAdmin(): Promise<AuthContext> {
+  const auth = await requireUser()
+  const { data, error } = await auth.client
+    .from('users')
+    .select('role')
+    .eq('id', auth.user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (data?.role !== 'admin') throw new AuthError('Admin access required', 403)
+  return auth
+}
+
+// Creates the users row on first sign-in. Its id is the auth user id, which is what
+// the policies compare against auth.uid().
+export async function ensureUserProfile(client: SupabaseClient, user: User) {
+  const email = user.email || ''
+  const { error } = await client
+    .from('users')
+    .upsert({
+      id: user.id,
+      email,
+      name: user.user_metadata?.name || email.split('@')[0]
+    }, { onConflict: 'id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LLMProviderError, LLMProvider } from './llm'
+import type { AuthContext } from './auth'
+import type { Review } from './supabase'
+import { generateReviewContent, saveGeneratedReview } from './synthesis'
+import { runBulkSynthesis, runWithConcurrency, BulkProgress, BULK_START_DEADLINE_MS } from './bulk-synthesis'
+
+vi.mock('./reviews', () => ({
+  getReview: vi.fn(async (_client: unknown, employeeId: string) => ({ id: `review-${employeeId}`, employee_id: employeeId, status: 'inputs_complete' })),
+  reviewInputSources: vi.fn(() => ({ itpScores: true, feedback360: false, selfReview: false, managerComments: true }))
+}))
+vi.mock('./review-cycles', () => ({ assertReviewEditable: vi.fn(async () => undefined) }))
+vi.mock('./synthesis', () => ({
+  storedSynthesisInputs: vi.fn(async (_auth: unknown, review: Review) => ({ review })),
+  generateReviewContent: vi.fn(),
+  saveGeneratedReview: vi.fn(async (inputs: { review: Review }) => ({ review: { ...inputs.review, status: 'generated' } }))
+}))
+
+const auth = {} as AuthContext
+const provider = { name: 'mock' } as LLMProvider
+const generate = vi.mocked(generateReviewContent)
+
+function rateLimited(retryAfter: number | null = null) {
+  return new LLMProviderError('anthropic', 429, 'Rate limited', retryAfter)
+}
+
+function run(employeeIds: string[]) {
+  const events: BulkProgress[] = []
+  const done = runBulkSynthesis(auth, 'cycle', employeeIds, provider, progress => events.push(progress))
+  return { events, done }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  generate.mockReset()
+  generate.mockResolvedValue({} as never)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('runWithConcurrency', () => {
+  it('runs every item with at most limit at once', async () => {
+    vi.useRealTimers()
+    let running = 0
+    let peak = 0
+    const seen: number[] = []
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      seen.push(item)
+      running--
+    })
+    expect(peak).toBe(2)
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5])
+  })
+})
+
+describe('runBulkSynthesis', () => {
+  it('generates and saves each review', async () => {
+    const { events, done } = run(['a', 'b'])
+    await expect(done).resolves.toEqual({ succeeded: ['a', 'b'], failed: [], skipped: [] })
+    expect(events.filter(e => e.status === 'succeeded').map(e => e.review?.status)).toEqual(['generated', 'generated'])
+    expect(saveGeneratedReview).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports failures per employee and carries on', async () => {
+    generate.mockRejectedValueOnce(new Error('Invalid output'))
+    const { events, done } = run(['a', 'b'])
+    await expect(done).resolves.toEqual({ succeeded: ['b'], failed: ['a'], skipped: [] })
+    expect(events).toContainEqual({ employeeId: 'a', status: 'failed', error: 'Invalid output' })
+  })
+
+  it("waits for the API's retry-after before retrying, pausing the whole batch", async () => {
+    generate.mockRejectedValueOnce(rateLimited(30))
+    const { events, done } = run(['a', 'b', 'c'])
+
+    await vi.advanceTimersByTimeAsync(29 * 1000)
+    expect(events).toContainEqual({ employeeId: 'a', status: 'waiting' })
+    // b finished before the rate limit; c waits with a
+    expect(events.filter(e => e.status === 'succeeded').map(e => e.employeeId)).toEqual(['b'])
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(done).resolves.toEqual({ succeeded: ['b', 'a', 'c'], failed: [], skipped: [] })
+  })
+
+  it('backs off exponentially without a retry-after and gives up after the last retry', async () => {
+    generate.mockRejectedValue(rateLimited())
+    const { done } = run(['a'])
+    await vi.advanceTimersByTimeAsync((5 + 10 + 20 + 40) * 1000)
+    await expect(done).resolves.toEqual({ succeeded: [], failed: ['a'], skipped: [] })
+    expect(generate).toHaveBeenCalledTimes(5)
+  })
+
+  it('skips employees not started by the deadline', async () => {
+    generate.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve({} as never), BULK_START_DEADLINE_MS)))
+    const { events, done } = run(['a', 'b', 'c', 'd'])
+    await vi.advanceTimersByTimeAsync(BULK_START_DEADLINE_MS)
+    await expect(done).resolves.toEqual({ succeeded: ['a', 'b'], failed: [], skipped: ['c', 'd'] })
+    expect(events).toContainEqual({ employeeId: 'c', status: 'skipped' })
+  })
+
+  it('gives up on a rate limit whose retry would start after the deadline', async () => {
+    generate.mockRejectedValueOnce(rateLimited(BULK_START_DEADLINE_MS / 1000 + 1))
+    const { done } = run(['a'])
+    await expect(done).resolves.toEqual({ succeeded: [], failed: ['a'], skipped: [] })
+  })
+})
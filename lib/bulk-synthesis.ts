@@ -0,0 +1,149 @@
+// Generates reviews for several employees in a cycle from their stored inputs
+
+import { isRateLimitError, LLMProvider } from './llm'
+import type { AuthContext } from './auth'
+import type { Review } from './supabase'
+import { getReview, reviewInputSources } from './reviews'
+import { assertReviewEditable } from './review-cycles'
+import { generateReviewContent, saveGeneratedReview, storedSynthesisInputs } from './synthesis'
+
+// A batch runs inside one request, limited to 300 seconds (the route's maxDuration and vercel.json).
+// Ten reviews at the default concurrency take about two and a half minutes.
+export const MAX_BULK_EMPLOYEES = 10
+// No review or retry starts after this, leaving the rest of the request's time for the ones running
+export const BULK_START_DEADLINE_MS = 180 * 1000
+const DEFAULT_CONCURRENCY = 2
+const MAX_RATE_LIMIT_RETRIES = 4
+const BASE_RETRY_DELAY_MS = 5000
+
+// skipped: not started before the deadline; saved reviews show which employees are done
+export type BulkItemStatus = 'queued' | 'running' | 'waiting' | 'succeeded' | 'failed' | 'skipped'
+
+export interface BulkProgress {
+  employeeId: string
+  status: BulkItemStatus
+  error?: string
+  review?: Review
+}
+
+export interface BulkSummary {
+  succeeded: string[]
+  failed: string[]
+  skipped: string[]
+}
+
+// Reviews generated at once; kept low so a batch stays inside the provider's rate limits
+export function getBulkConcurrency() {
+  const configured = Number(process.env.BULK_SYNTHESIS_CONCURRENCY)
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY
+}
+
+// One rate limit response pauses every worker in the batch, not just the one that hit it
+function createBackoff() {
+  let resumeAt = 0
+  return {
+    pause(ms: number) {
+      resumeAt = Math.max(resumeAt, Date.now() + ms)
+    },
+    async wait() {
+      while (Date.now() < resumeAt) {
+        await new Promise(resolve => setTimeout(resolve, resumeAt - Date.now()))
+      }
+    }
+  }
+}
+
+type Backoff = ReturnType<typeof createBackoff>
+
+// Retries on 429/529, waiting for the API's retry-after when it sends one and backing off exponentially
+// otherwise. Gives up when the retry would start after the deadline.
+async function withRateLimitRetry<T>(backoff: Backoff, deadline: number, fn: () => Promise<T>, onWait: () => void): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await backoff.wait()
+    try {
+      return await fn()
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt >= MAX_RATE_LIMIT_RETRIES) throw error
+      const delay = error.retryAfter ? error.retryAfter * 1000 : BASE_RETRY_DELAY_MS * Math.pow(2, attempt)
+      if (Date.now() + delay > deadline) throw error
+      console.warn(`Rate limited by ${error.provider}; retrying in ${Math.round(delay / 1000)}s`)
+      backoff.pause(delay)
+      onWait()
+    }
+  }
+}
+
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++])
+    }
+  })
+  await Promise.all(runners)
+}
+
+async function generateForEmployee(
+  auth: AuthContext,
+  reviewCycleId: string,
+  employeeId: string,
+  provider: LLMProvider,
+  backoff: Backoff,
+  deadline: number,
+  onProgress: (progress: BulkProgress) => void
+): Promise<Review> {
+  const review = await getReview(auth.client, employeeId, reviewCycleId)
+  if (!review || !Object.values(reviewInputSources(review)).some(Boolean)) {
+    throw new Error('No stored inputs for this cycle')
+  }
+  if (review.status === 'finalized') {
+    throw new Error('Review is already finalized')
+  }
+  await assertReviewEditable(auth.client, reviewCycleId, review)
+
+  const startedAt = Date.now()
+  const { inputs, content } = await withRateLimitRetry(backoff, deadline, async () => {
+    onProgress({ employeeId, status: 'running' })
+    const inputs = await storedSynthesisInputs(auth, review, provider)
+    return { inputs, content: await generateReviewContent(inputs) }
+  }, () => onProgress({ employeeId, status: 'waiting' }))
+
+  const saved = await saveGeneratedReview(inputs, content, startedAt)
+  if (!saved.review) throw new Error(saved.saveError || 'Failed to save review')
+  return saved.review
+}
+
+// Failures are reported per employee and don't stop the rest of the batch. Employees not started
+// by the deadline are reported as skipped, to be sent again in a new batch.
+export async function runBulkSynthesis(
+  auth: AuthContext,
+  reviewCycleId: string,
+  employeeIds: string[],
+  provider: LLMProvider,
+  onProgress: (progress: BulkProgress) => void
+): Promise<BulkSummary> {
+  const summary: BulkSummary = { succeeded: [], failed: [], skipped: [] }
+  const backoff = createBackoff()
+  const deadline = Date.now() + BULK_START_DEADLINE_MS
+
+  employeeIds.forEach(employeeId => onProgress({ employeeId, status: 'queued' }))
+
+  await runWithConcurrency(employeeIds, getBulkConcurrency(), async employeeId => {
+    if (Date.now() >= deadline) {
+      summary.skipped.push(employeeId)
+      onProgress({ employeeId, status: 'skipped' })
+      return
+    }
+    try {
+      const review = await generateForEmployee(auth, reviewCycleId, employeeId, provider, backoff, deadline, onProgress)
+      summary.succeeded.push(employeeId)
+      onProgress({ employeeId, status: 'succeeded', review })
+    } catch (error) {
+      console.error(`Bulk generation failed for employee ${employeeId}:`, error)
+      summary.failed.push(employeeId)
+      onProgress({ employeeId, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  })
+
+  return summary
+}
@@ -0,0 +1,91 @@
+// Per-employee review progress for a manager's team in one review cycle
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Employee, Review, ReviewStatus } from './supabase'
+import type { DataUsed } from './synthesis'
+import { ITP_COLUMNS, ITPColumn } from './reviews'
+import { acknowledgementStatus, getEmployeeHistory } from './employee-reviews'
+
+export interface TeamMemberReview {
+  employee: Pick<Employee, 'id' | 'name' | 'email' | 'position' | 'department'>
+  review: {
+    id: string
+    status: ReviewStatus
+    updated_at: string
+    reopened: boolean
+    // Set once the employee acknowledged the finalized review
+    acknowledged_at: string | null
+    response_count: number
+  } | null
+  inputs: DataUsed
+}
+
+// The text inputs are checked in the database (see has_feedback_360_text) rather than loaded
+type TeamReviewRow = Pick<Review, 'id' | 'employee_id' | 'status' | 'updated_at' | 'reopened' | 'finalized_at' | ITPColumn> & {
+  has_feedback_360_text: boolean
+  has_self_review_text: boolean
+  has_manager_comments: boolean
+}
+
+const NO_INPUTS: DataUsed = { itpScores: false, feedback360: false, selfReview: false, managerComments: false }
+
+function reviewInputs(review: TeamReviewRow): DataUsed {
+  return {
+    itpScores: ITP_COLUMNS.some(column => review[column] != null),
+    feedback360: review.has_feedback_360_text,
+    selfReview: review.has_self_review_text,
+    managerComments: review.has_manager_comments
+  }
+}
+
+export async function getTeamOverview(
+  client: SupabaseClient,
+  managerId: string,
+  reviewCycleId: string
+): Promise<TeamMemberReview[]> {
+  const [employeesResult, reviewsResult] = await Promise.all([
+    client
+      .from('employees')
+      .select('id, name, email, position, department')
+      .eq('manager_id', managerId)
+      .order('name'),
+    client
+      .from('reviews')
+      .select(`id, employee_id, status, updated_at, reopened, finalized_at, has_feedback_360_text, has_self_review_text, has_manager_comments, ${ITP_COLUMNS.join(', ')}`)
+      .eq('manager_id', managerId)
+      .eq('review_cycle_id', reviewCycleId)
+      .returns<TeamReviewRow[]>()
+  ])
+
+  if (employeesResult.error) throw employeesResult.error
+  if (reviewsResult.error) throw reviewsResult.error
+
+  const reviews = reviewsResult.data
+  const reviewsByEmployee = new Map<string, TeamReviewRow>()
+  reviews.forEach(review => reviewsByEmployee.set(review.employee_id, review))
+
+  // Employee responses and acknowledgements only exist for finalized reviews
+  const history = await getEmployeeHistory(
+    client,
+    reviews.filter(review => review.status === 'finalized').map(review => review.id)
+  )
+
+  return employeesResult.data.map(employee => {
+    const review = reviewsByEmployee.get(employee.id)
+    const acknowledgement = review?.finalized_at
+      ? acknowledgementStatus(history.filter(entry => entry.review_id === review.id), employee.id, review.finalized_at)
+      : null
+    return {
+      employee,
+      review: review ? {
+        id: review.id,
+        status: review.status,
+        updated_at: review.updated_at,
+        reopened: review.reopened,
+        acknowledged_at: acknowledgement ? acknowledgement.acknowledgedAt : null,
+        response_count: acknowledgement ? acknowledgement.responses.length : 0
+      } : null,
+      inputs: review ? reviewInputs(review) : NO_INPUTS
+    }
+  })
+}
@@ -0,0 +1,130 @@
+// Employee-facing view of finalized reviews. Employees read the final text and ratings through the
+// employee_reviews() database function; their written responses and acknowledgements are recorded
+// in the review history, where the manager sees them too.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ReviewCycle, ReviewHistory } from './supabase'
+import { getReviewTemplate } from './review-templates'
+import { currentSections, ReviewSection, ReviewSectionRatings, ReviewSectionText } from './review-sections'
+import { recordReviewHistory, ReviewChangeType } from './review-history'
+
+export const MAX_RESPONSE_CHARS = 5000
+
+const EMPLOYEE_CHANGE_TYPES: ReviewChangeType[] = ['employee_responded', 'employee_acknowledged']
+
+export interface EmployeeResponse {
+  response: string
+  createdAt: string
+}
+
+export interface AcknowledgementStatus {
+  // When the employee acknowledged the review as it now stands, or null
+  acknowledgedAt: string | null
+  responses: EmployeeResponse[] // oldest first
+}
+
+export interface EmployeeReview extends AcknowledgementStatus {
+  id: string
+  cycle: Pick<ReviewCycle, 'id' | 'name' | 'year'> | null
+  sections: ReviewSection[]
+  text: ReviewSectionText
+  ratings: ReviewSectionRatings
+  finalizedAt: string
+}
+
+export type EmployeeHistoryEntry = Pick<ReviewHistory, 'review_id' | 'changed_by' | 'change_type' | 'changes' | 'created_at'>
+
+// Row returned by employee_reviews(): the text and ratings as they were last finalized
+interface EmployeeReviewRow {
+  id: string
+  review_cycle_id: string
+  template_version_id: string | null
+  sections: ReviewSectionText
+  section_ratings: ReviewSectionRatings
+  finalized_at: string
+}
+
+// An acknowledgement covers the review as it was finalized when it was made; a review finalized
+// again afterwards needs acknowledging again. Only entries by the employee themselves count.
+export function acknowledgementStatus(
+  entries: EmployeeHistoryEntry[],
+  employeeId: string,
+  finalizedAt: string
+): AcknowledgementStatus {
+  const own = entries
+    .filter(entry => entry.changed_by === employeeId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const acknowledgement = own.filter(entry =>
+    entry.change_type === 'employee_acknowledged' && Date.parse(entry.created_at) >= Date.parse(finalizedAt)
+  )[0]
+
+  return {
+    acknowledgedAt: acknowledgement ? acknowledgement.created_at : null,
+    responses: own
+      .filter(entry => entry.change_type === 'employee_responded' && entry.changes?.employeeResponse)
+      .map(entry => ({ response: entry.changes!.employeeResponse as string, createdAt: entry.created_at }))
+  }
+}
+
+// Employee responses and acknowledgements for the given reviews
+export async function getEmployeeHistory(client: SupabaseClient, reviewIds: string[]): Promise<EmployeeHistoryEntry[]> {
+  if (reviewIds.length === 0) return []
+  const { data, error } = await client
+    .from('review_history')
+    .select('review_id, changed_by, change_type, changes, created_at')
+    .in('review_id', reviewIds)
+    .in('change_type', EMPLOYEE_CHANGE_TYPES)
+
+  if (error) throw error
+  return data as EmployeeHistoryEntry[]
+}
+
+// The signed-in employee's finalized reviews, newest first
+export async function getEmployeeReviews(client: SupabaseClient, employeeId: string): Promise<EmployeeReview[]> {
+  const { data, error } = await client.rpc('employee_reviews')
+  if (error) throw error
+
+  const rows = (data || []) as EmployeeReviewRow[]
+  if (rows.length === 0) return []
+
+  const [cyclesResult, history, templates] = await Promise.all([
+    client.from('review_cycles').select('id, name, year').in('id', rows.map(row => row.review_cycle_id)),
+    getEmployeeHistory(client, rows.map(row => row.id)),
+    Promise.all(rows.map(row => getReviewTemplate(client, row)))
+  ])
+  if (cyclesResult.error) throw cyclesResult.error
+
+  return rows.map((row, index) => {
+    const sections = templates[index].sections
+    return {
+      id: row.id,
+      cycle: cyclesResult.data.filter(cycle => cycle.id === row.review_cycle_id)[0] || null,
+      sections,
+      text: currentSections({ generated_sections: row.sections }, sections),
+      ratings: row.section_ratings,
+      finalizedAt: row.finalized_at,
+      ...acknowledgementStatus(history.filter(entry => entry.review_id === row.id), employeeId, row.finalized_at)
+    }
+  }).sort((a, b) => b.finalizedAt.localeCompare(a.finalizedAt))
+}
+
+export async function getEmployeeReview(client: SupabaseClient, employeeId: string, reviewId: string) {
+  const reviews = await getEmployeeReviews(client, employeeId)
+  return reviews.filter(review => review.id === reviewId)[0] || null
+}
+
+// Both entries keep the text the employee was shown as their snapshot
+export async function addEmployeeResponse(client: SupabaseClient, employeeId: string, review: EmployeeReview, response: string) {
+  await recordReviewHistory(client, review.id, employeeId, 'employee_responded', {
+    fields: {},
+    snapshot: review.text,
+    employeeResponse: response
+  })
+}
+
+export async function acknowledgeEmployeeReview(client: SupabaseClient, employeeId: string, review: EmployeeReview) {
+  await recordReviewHistory(client, review.id, employeeId, 'employee_acknowledged', {
+    fields: {},
+    snapshot: review.text
+  })
+}
@@ -0,0 +1,123 @@
+// Word (DOCX) rendering of an exported review with the docx package
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx'
+import type { ReviewExport } from './index'
+
+const LIST_NUMBERING = 'review-list'
+
+const NO_BORDERS = {
+  top: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  bottom: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  right: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' }
+}
+
+function heading(text: string) {
+  return new Paragraph({ text, heading: HeadingLevel.HEADING_2, spacing: { before: 320, after: 120 } })
+}
+
+function cell(text: string, bold = false) {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold })] })] })
+}
+
+function signatureLine(role: string) {
+  const line = (label: string) => new TableCell({
+    borders: { ...NO_BORDERS, top: { style: BorderStyle.SINGLE, size: 6, color: '000000' } },
+    children: [new Paragraph({ children: [new TextRun({ text: label, size: 18, color: '6B7280' })] })]
+  })
+  return [
+    new Paragraph({ text: '', spacing: { before: 480 } }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      columnWidths: [6000, 600, 2400],
+      rows: [new TableRow({
+        children: [line(`${role} signature`), new TableCell({ borders: NO_BORDERS, children: [new Paragraph('')] }), line('Date')]
+      })]
+    })
+  ]
+}
+
+export async function renderReviewDOCX(data: ReviewExport): Promise<ArrayBuffer> {
+  const children: (Paragraph | Table)[] = []
+
+  if (data.companyName) {
+    children.push(new Paragraph({ children: [new TextRun({ text: data.companyName.toUpperCase(), color: '6B7280', size: 20 })] }))
+  }
+  children.push(new Paragraph({ text: 'Performance Review', heading: HeadingLevel.TITLE }))
+  data.header.forEach(({ label, value }) => {
+    children.push(new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value || '-')]
+    }))
+  })
+
+  data.sections.forEach((section, index) => {
+    children.push(heading(section.title))
+    if (section.rating) {
+      children.push(new Paragraph({ children: [new TextRun({ text: `Rating: ${section.rating}`, bold: true })], spacing: { after: 120 } }))
+    }
+    if (section.numberedItems) {
+      section.numberedItems.forEach(item => {
+        // A numbering instance per section so each list starts again at 1
+        children.push(new Paragraph({ text: item, numbering: { reference: LIST_NUMBERING, level: 0, instance: index }, spacing: { after: 80 } }))
+      })
+    } else {
+      section.paragraphs.forEach(paragraph => {
+        children.push(new Paragraph({ text: paragraph, spacing: { after: 160 } }))
+      })
+    }
+  })
+
+  if (data.goalProgress) {
+    children.push(heading("Progress on Last Year's Goals"))
+    data.goalProgress.forEach(item => {
+      children.push(new Paragraph({ children: [new TextRun({ text: `${item.goal} - ${item.status}`, bold: true })] }))
+      children.push(new Paragraph({ text: item.assessment, spacing: { after: 160 } }))
+    })
+  }
+
+  if (data.itpScores) {
+    children.push(heading('ITP Assessment Scores'))
+    children.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: [cell('Dimension', true), cell('Self', true), cell('Manager', true)] }),
+        ...data.itpScores.map(row => new TableRow({
+          children: [
+            cell(row.dimension),
+            cell(row.self !== null ? `${row.self}/10` : '-'),
+            cell(row.manager !== null ? `${row.manager}/10` : '-')
+          ]
+        }))
+      ]
+    }))
+  }
+
+  children.push(heading('Acknowledgement'))
+  children.push(new Paragraph({ text: data.acknowledgement }))
+  data.signatures.forEach(role => children.push(...signatureLine(role)))
+
+  const document = new Document({
+    numbering: {
+      config: [{
+        reference: LIST_NUMBERING,
+        levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }]
+      }]
+    },
+    sections: [{ children }]
+  })
+
+  return Packer.toArrayBuffer(document)
+}
@@ -0,0 +1,135 @@
+// Formatted review documents (PDF and DOCX) for HR. Both formats render the same
+// ReviewExport so their content stays identical.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ITP_DIMENSIONS, ITP_DIMENSION_LABELS } from '../itp'
+import { columnsToITPScores, getReviewById } from '../reviews'
+import { currentSections, ratingLabel } from '../review-sections'
+import { getReviewTemplate } from '../review-templates'
+import { GOAL_STATUS_LABELS } from '../goal-progress'
+import { renderReviewPDF } from './pdf'
+import { renderReviewDOCX } from './docx'
+
+export type ExportFormat = 'pdf' | 'docx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'docx']
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+}
+
+export interface ExportSection {
+  title: string
+  paragraphs: string[]
+  // Set for numbered list sections such as goals
+  numberedItems: string[] | null
+  // e.g. "4 / 5 - Exceeds expectations", for sections with a rating scale
+  rating: string | null
+}
+
+export interface ExportGoalProgress {
+  goal: string
+  status: string // label, e.g. "Partially achieved"
+  assessment: string
+}
+
+export interface ExportITPRow {
+  dimension: string
+  self: number | null
+  manager: number | null
+}
+
+export interface ReviewExport {
+  companyName: string | null
+  header: { label: string; value: string }[]
+  sections: ExportSection[]
+  // Progress on the previous review's goals, when the review followed them up
+  goalProgress: ExportGoalProgress[] | null
+  itpScores: ExportITPRow[] | null
+  acknowledgement: string
+  signatures: string[]
+  fileName: string
+}
+
+const ACKNOWLEDGEMENT = 'By signing below, the employee acknowledges that this review has been received and discussed with their manager. Signing does not necessarily indicate agreement with its contents.'
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return !!value && (EXPORT_FORMATS as string[]).includes(value)
+}
+
+function toParagraphs(text: string) {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)
+}
+
+// List sections are stored as "1. Title: description" lines; returns null when the text isn't a numbered list
+export function parseNumberedItems(text: string): string[] | null {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
+  if (lines.length === 0 || !lines.every(line => /^\d+[.)]\s+/.test(line))) return null
+  return lines.map(line => line.replace(/^\d+[.)]\s+/, ''))
+}
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+// Laid out by the template the review was generated with. Manager edits are used where
+// they exist, falling back to the AI draft.
+export async function getReviewExport(client: SupabaseClient, reviewId: string, includeITP: boolean): Promise<ReviewExport | null> {
+  const review = await getReviewById(client, reviewId)
+  if (!review) return null
+
+  const [employeeResult, cycleResult, managerResult] = await Promise.all([
+    client.from('employees').select('name, position, department').eq('id', review.employee_id).maybeSingle(),
+    client.from('review_cycles').select('name').eq('id', review.review_cycle_id).maybeSingle(),
+    client.from('users').select('name').eq('id', review.manager_id).maybeSingle()
+  ])
+  if (employeeResult.error) throw employeeResult.error
+  if (cycleResult.error) throw cycleResult.error
+
+  const employee = employeeResult.data
+  const cycleName = cycleResult.data?.name || ''
+  const template = await getReviewTemplate(client, review)
+  const text = currentSections(review, template.sections)
+
+  const sections = template.sections.map(section => {
+    const scale = section.ratingScale
+    const rating = review.section_ratings[section.key]
+    return {
+      title: section.title,
+      paragraphs: toParagraphs(text[section.key]),
+      numberedItems: section.format === 'numbered_list' ? parseNumberedItems(text[section.key]) : null,
+      rating: scale && rating != null
+        ? [`${rating} / ${scale.max}`, ratingLabel(scale, rating)].filter(Boolean).join(' - ')
+        : null
+    }
+  })
+
+  const { self, manager } = columnsToITPScores(review)
+  const hasScores = Object.keys(self).length > 0 || Object.keys(manager).length > 0
+
+  return {
+    companyName: process.env.EXPORT_COMPANY_NAME || null,
+    header: [
+      { label: 'Employee', value: employee?.name || '' },
+      { label: 'Position', value: [employee?.position, employee?.department].filter(Boolean).join(', ') },
+      // Another manager's profile isn't readable under RLS, e.g. when an admin exports
+      { label: 'Manager', value: managerResult.data?.name || '' },
+      { label: 'Review cycle', value: cycleName }
+    ],
+    sections,
+    goalProgress: review.goal_progress?.length
+      ? review.goal_progress.map(p => ({ goal: p.goal, status: GOAL_STATUS_LABELS[p.status], assessment: p.assessment }))
+      : null,
+    itpScores: includeITP && hasScores
+      ? ITP_DIMENSIONS.map(d => ({ dimension: ITP_DIMENSION_LABELS[d], self: self[d] ?? null, manager: manager[d] ?? null }))
+      : null,
+    acknowledgement: ACKNOWLEDGEMENT,
+    signatures: ['Employee', 'Manager'],
+    fileName: ['performance-review', slugify(employee?.name || ''), slugify(cycleName)].filter(Boolean).join('-')
+  }
+}
+
+export async function renderReviewExport(data: ReviewExport, format: ExportFormat): Promise<ArrayBuffer> {
+  return format === 'pdf' ? renderReviewPDF(data) : renderReviewDOCX(data)
+}
@@ -0,0 +1,127 @@
+// PDF rendering of an exported review with jsPDF
+
+import { jsPDF } from 'jspdf'
+import type { ReviewExport } from './index'
+
+const MARGIN = 20
+const LINE_HEIGHT = 5.5
+const BODY_SIZE = 10.5
+const ACCENT: [number, number, number] = [31, 41, 55]
+
+export function renderReviewPDF(data: ReviewExport): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - MARGIN * 2
+  let y = MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+    }
+  }
+
+  const writeLines = (text: string, indent = 0) => {
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent)
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT)
+      doc.text(line, MARGIN + indent, y)
+      y += LINE_HEIGHT
+    })
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3)
+    y += 3
+    doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(...ACCENT)
+    doc.text(text, MARGIN, y)
+    y += 2
+    doc.setDrawColor(209, 213, 219).line(MARGIN, y, pageWidth - MARGIN, y)
+    y += LINE_HEIGHT
+    doc.setFont('helvetica', 'normal').setFontSize(BODY_SIZE).setTextColor(0, 0, 0)
+  }
+
+  // Title and header block
+  if (data.companyName) {
+    doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(107, 114, 128)
+    doc.text(data.companyName.toUpperCase(), MARGIN, y)
+    y += LINE_HEIGHT
+  }
+  doc.setFont('helvetica', 'bold').setFontSize(18).setTextColor(...ACCENT)
+  doc.text('Performance Review', MARGIN, y + 2)
+  y += LINE_HEIGHT * 2
+
+  doc.setFontSize(BODY_SIZE).setTextColor(0, 0, 0)
+  data.header.forEach(({ label, value }) => {
+    doc.setFont('helvetica', 'bold').text(`${label}:`, MARGIN, y)
+    doc.setFont('helvetica', 'normal').text(value || '-', MARGIN + 32, y)
+    y += LINE_HEIGHT
+  })
+
+  data.sections.forEach(section => {
+    heading(section.title)
+    if (section.rating) {
+      doc.setFont('helvetica', 'bold')
+      writeLines(`Rating: ${section.rating}`)
+      doc.setFont('helvetica', 'normal')
+      y += 1.5
+    }
+    if (section.numberedItems) {
+      section.numberedItems.forEach((item, index) => {
+        ensureSpace(LINE_HEIGHT)
+        doc.text(`${index + 1}.`, MARGIN, y)
+        writeLines(item, 7)
+        y += 1.5
+      })
+    } else {
+      section.paragraphs.forEach(paragraph => {
+        writeLines(paragraph)
+        y += 2.5
+      })
+    }
+  })
+
+  if (data.goalProgress) {
+    heading("Progress on Last Year's Goals")
+    data.goalProgress.forEach(item => {
+      doc.setFont('helvetica', 'bold')
+      writeLines(`${item.goal} - ${item.status}`)
+      doc.setFont('helvetica', 'normal')
+      writeLines(item.assessment)
+      y += 2.5
+    })
+  }
+
+  if (data.itpScores) {
+    heading('ITP Assessment Scores')
+    const columns = [MARGIN, MARGIN + 60, MARGIN + 100]
+    doc.setFont('helvetica', 'bold')
+    ;['Dimension', 'Self', 'Manager'].forEach((label, i) => doc.text(label, columns[i], y))
+    y += LINE_HEIGHT
+    doc.setFont('helvetica', 'normal')
+    data.itpScores.forEach(row => {
+      ensureSpace(LINE_HEIGHT)
+      doc.text(row.dimension, columns[0], y)
+      doc.text(row.self !== null ? `${row.self}/10` : '-', columns[1], y)
+      doc.text(row.manager !== null ? `${row.manager}/10` : '-', columns[2], y)
+      y += LINE_HEIGHT
+    })
+  }
+
+  heading('Acknowledgement')
+  writeLines(data.acknowledgement)
+  data.signatures.forEach(role => {
+    ensureSpace(LINE_HEIGHT * 4)
+    y += LINE_HEIGHT * 2
+    doc.line(MARGIN, y, MARGIN + 95, y)
+    doc.line(MARGIN + 110, y, pageWidth - MARGIN, y)
+    y += 4
+    doc.setFontSize(9).setTextColor(107, 114, 128)
+    doc.text(`${role} signature`, MARGIN, y)
+    doc.text('Date', MARGIN + 110, y)
+    doc.setFontSize(BODY_SIZE).setTextColor(0, 0, 0)
+  })
+
+  return doc.output('arraybuffer')
+}
@@ -0,0 +1,232 @@
+// Structured 360 feedback: the report text split into comments by rater group and question, and
+// the recurring themes across them. Segmentation is done here; the model only groups comments into
+// themes, so the counts are always of real comments.
+
+export type RaterGroup = 'peer' | 'direct_report' | 'stakeholder' | 'manager' | 'self' | 'unspecified'
+
+export const RATER_GROUP_LABELS: Record<RaterGroup, string> = {
+  peer: 'Peers',
+  direct_report: 'Direct reports',
+  stakeholder: 'Stakeholders',
+  manager: 'Manager',
+  self: 'Self',
+  unspecified: 'Unspecified'
+}
+
+export type ThemeSentiment = 'positive' | 'negative' | 'mixed' | 'neutral'
+
+export const THEME_SENTIMENTS: ThemeSentiment[] = ['positive', 'negative', 'mixed', 'neutral']
+
+export interface Feedback360Comment {
+  id: string
+  raterGroup: RaterGroup
+  question: string | null
+  text: string
+}
+
+export interface Feedback360Theme {
+  theme: string
+  sentiment: ThemeSentiment
+  summary: string
+  commentIds: string[]
+  count: number
+  // Number of the theme's comments from each rater group
+  raterGroups: Partial<Record<RaterGroup, number>>
+}
+
+export interface Feedback360Analysis {
+  comments: Feedback360Comment[]
+  themes: Feedback360Theme[] // most frequent first
+}
+
+// Comments sent to the model for theming, and the length each is cut to
+const MAX_THEMED_COMMENTS = 250
+const MAX_COMMENT_CHARS = 500
+const MAX_THEMES = 10
+const QUOTES_PER_THEME = 2
+const MAX_QUOTE_CHARS = 200
+
+const RATER_GROUP_WORDS: [RaterGroup, string][] = [
+  ['direct_report', 'direct reports?|team members?'],
+  ['peer', 'peers?|colleagues?'],
+  ['stakeholder', 'stakeholders?|cross[- ]functional partners?|partners?|customers?'],
+  ['manager', 'managers?|supervisors?'],
+  ['self', 'self(?:[- ]assessment)?']
+]
+
+// A heading such as "Peers", "DIRECT REPORT FEEDBACK" or "Stakeholders (4 respondents):"
+function headingGroup(line: string): RaterGroup | null {
+  const match = RATER_GROUP_WORDS.filter(([, words]) =>
+    new RegExp(`^(?:${words})(?:\\s+(?:feedback|comments|responses))?\\s*(?:\\(\\s*\\d+[^)]*\\))?\\s*:?$`, 'i').test(line)
+  )[0]
+  return match ? match[0] : null
+}
+
+// A comment attributed inline, such as "Peer: Always willing to help"
+function inlineGroup(line: string): { group: RaterGroup; text: string } | null {
+  for (const [group, words] of RATER_GROUP_WORDS) {
+    const match = new RegExp(`^(?:${words})\\s*[:\\-–]\\s+(.+)$`, 'i').exec(line)
+    if (match) return { group, text: match[1] }
+  }
+  return null
+}
+
+function questionText(line: string): string | null {
+  const numbered = /^Q\d+[.:)]\s*(.+)$/i.exec(line)
+  if (numbered) return numbered[1].trim()
+  return line.length <= 200 && line.endsWith('?') ? line.replace(/^\d+[.)]\s+/, '') : null
+}
+
+const BULLET = /^(?:[-•*▪◦]|\d+[.)])\s+/
+const PAGE_MARKER = /^page \d+(?: of \d+)?$/i
+
+// Splits report text into comments. Headings set the rater group and question for the comments
+// under them; each bullet or paragraph is a comment. Lines too short to be comments (ratings,
+// page numbers) are dropped.
+export function segmentFeedback360(text: string): Feedback360Comment[] {
+  const comments: Feedback360Comment[] = []
+  let group: RaterGroup = 'unspecified'
+  let question: string | null = null
+  let current: { group: RaterGroup; lines: string[] } | null = null
+
+  const flush = () => {
+    if (!current) return
+    const commentText = current.lines.join(' ').replace(/\s+/g, ' ').trim()
+    if (commentText.split(' ').length >= 3) {
+      comments.push({ id: `c${comments.length + 1}`, raterGroup: current.group, question, text: commentText })
+    }
+    current = null
+  }
+
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim()
+    if (!line) return flush()
+    // Page numbers and numeric ratings
+    if (PAGE_MARKER.test(line) || !/[a-z]/i.test(line)) return
+
+    const heading = headingGroup(line)
+    if (heading) {
+      flush()
+      group = heading
+      question = null
+      return
+    }
+
+    const asked = questionText(line)
+    if (asked) {
+      flush()
+      question = asked
+      return
+    }
+
+    const attributed = inlineGroup(line.replace(BULLET, ''))
+    if (attributed) {
+      flush()
+      current = { group: attributed.group, lines: [attributed.text] }
+      return
+    }
+
+    if (BULLET.test(line)) {
+      flush()
+      current = { group, lines: [line.replace(BULLET, '')] }
+      return
+    }
+
+    if (!current) current = { group, lines: [] }
+    current.lines.push(line)
+  })
+  flush()
+
+  return comments
+}
+
+export function feedback360ThemesJSONTemplate() {
+  return `{
+  "themes": [
+    { "theme": "<short name>", "sentiment": "${THEME_SENTIMENTS.join('|')}", "summary": "<one sentence on what the comments say>", "commentIds": ["c1", "c4"] }
+  ]
+}`
+}
+
+export function buildFeedback360ThemePrompt(comments: Feedback360Comment[], redact: (text: string) => string = text => text) {
+  const listed = comments.slice(0, MAX_THEMED_COMMENTS).map(c => {
+    const about = c.question ? ` on "${redact(c.question)}"` : ''
+    const text = c.text.length > MAX_COMMENT_CHARS ? `${c.text.substring(0, MAX_COMMENT_CHARS)}...` : c.text
+    return `[${c.id}] (${RATER_GROUP_LABELS[c.raterGroup]}${about}) ${redact(text)}`
+  })
+
+  return `These are the comments from a 360 feedback report, each with its id, rater group and the question it answers.
+Group them into the recurring themes (at most ${MAX_THEMES}), such as communication, ownership or technical depth.
+A comment can belong to more than one theme; leave out comments that fit no theme. Give each theme the overall
+sentiment of its comments. Do not add anything that is not in the comments.
+
+COMMENTS:
+${listed.join('\n')}
+
+Return ONLY a valid JSON object (no markdown, no code fences) in exactly this shape:
+${feedback360ThemesJSONTemplate()}`
+}
+
+function isThemeSentiment(value: unknown): value is ThemeSentiment {
+  return typeof value === 'string' && (THEME_SENTIMENTS as string[]).includes(value)
+}
+
+// Keeps the themes that refer to real comments, with their counts taken from those comments
+export function validateFeedback360Themes(raw: any, comments: Feedback360Comment[]): Feedback360Theme[] {
+  const byId: Record<string, Feedback360Comment> = {}
+  comments.forEach(c => { byId[c.id] = c })
+
+  const themes: Feedback360Theme[] = []
+  const items: any[] = Array.isArray(raw?.themes) ? raw.themes : []
+  items.forEach(item => {
+    if (typeof item?.theme !== 'string' || !item.theme.trim()) return
+    const ids: string[] = Array.isArray(item.commentIds) ? item.commentIds : []
+    const commentIds = ids.filter((id, index) => typeof id === 'string' && byId[id] && ids.indexOf(id) === index)
+    if (commentIds.length === 0) return
+
+    const raterGroups: Feedback360Theme['raterGroups'] = {}
+    commentIds.forEach(id => {
+      const group = byId[id].raterGroup
+      raterGroups[group] = (raterGroups[group] || 0) + 1
+    })
+    themes.push({
+      theme: item.theme.trim(),
+      sentiment: isThemeSentiment(item.sentiment) ? item.sentiment : 'neutral',
+      summary: typeof item.summary === 'string' ? item.summary.trim() : '',
+      commentIds,
+      count: commentIds.length,
+      raterGroups
+    })
+  })
+
+  return themes.sort((a, b) => b.count - a.count).slice(0, MAX_THEMES)
+}
+
+export function themeQuotes(theme: Feedback360Theme, analysis: Feedback360Analysis): string[] {
+  return theme.commentIds.slice(0, QUOTES_PER_THEME)
+    .map(id => analysis.comments.filter(c => c.id === id)[0])
+    .filter(Boolean)
+    .map(c => c.text.length > MAX_QUOTE_CHARS ? `${c.text.substring(0, MAX_QUOTE_CHARS)}...` : c.text)
+}
+
+export function formatRaterGroupCounts(counts: Partial<Record<RaterGroup, number>>) {
+  return (Object.keys(RATER_GROUP_LABELS) as RaterGroup[])
+    .filter(group => counts[group])
+    .map(group => `${RATER_GROUP_LABELS[group].toLowerCase()} ${counts[group]}`)
+    .join(', ')
+}
+
+export function raterGroupCounts(comments: Feedback360Comment[]) {
+  const counts: Partial<Record<RaterGroup, number>> = {}
+  comments.forEach(c => { counts[c.raterGroup] = (counts[c.raterGroup] || 0) + 1 })
+  return counts
+}
+
+// The themes as they are given to the model in place of the report text
+export function formatFeedback360Analysis(analysis: Feedback360Analysis) {
+  const themes = analysis.themes.map((theme, index) => {
+    const quotes = themeQuotes(theme, analysis).map(quote => `   - "${quote}"`).join('\n')
+    return `${index + 1}. ${theme.theme} (${theme.sentiment}; ${theme.count} comment${theme.count === 1 ? '' : 's'}: ${formatRaterGroupCounts(theme.raterGroups)}): ${theme.summary}${quotes ? `\n${quotes}` : ''}`
+  })
+  return `Themes across ${analysis.comments.length} comments (${formatRaterGroupCounts(raterGroupCounts(analysis.comments))}):\n${themes.join('\n')}`
+}
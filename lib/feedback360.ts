@@ -0,0 +1,85 @@
+// 360 feedback preparation for the synthesis prompt
+
+import { stripCodeFences, LLMProvider } from './llm'
+import type { Redactor } from './redaction'
+import { buildFeedback360ThemePrompt, segmentFeedback360, validateFeedback360Themes, Feedback360Analysis } from './feedback360-analysis'
+
+// Reports up to this length go into the prompt verbatim; longer ones are chunked and summarized
+export const MAX_VERBATIM_360_CHARS = 12000
+const CHUNK_SIZE = 8000
+
+export interface PreparedFeedback360 {
+  text: string
+  summarized: boolean
+}
+
+// Splits on paragraph boundaries so chunks don't cut comments mid-sentence
+export function chunkText(text: string, maxChars: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current)
+      current = ''
+    }
+
+    if (paragraph.length > maxChars) {
+      for (let i = 0; i < paragraph.length; i += maxChars) {
+        chunks.push(paragraph.substring(i, i + maxChars))
+      }
+      continue
+    }
+
+    current = current ? `${current}\n\n${paragraph}` : paragraph
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+export async function prepareFeedback360ForPrompt(text: string, provider: LLMProvider): Promise<PreparedFeedback360> {
+  if (text.length <= MAX_VERBATIM_360_CHARS) {
+    return { text, summarized: false }
+  }
+
+  const chunks = chunkText(text, CHUNK_SIZE)
+  console.log(`Summarizing 360 feedback in ${chunks.length} chunks (${text.length} chars)`)
+
+  const summaries = await Promise.all(chunks.map((chunk, index) => provider.complete(
+    `Summarize part ${index + 1} of ${chunks.length} of a 360 feedback report for a performance review writer.
+Keep recurring themes, specific examples and who gave the feedback (peer, direct report, stakeholder, etc.).
+Do not add anything that is not in the text. Return plain text only.
+
+REPORT TEXT:
+${chunk}`,
+    { maxTokens: 800 }
+  )))
+
+  return { text: summaries.map(s => s.trim()).join('\n\n'), summarized: true }
+}
+
+// Splits the report into comments and has the model group them into themes. The comments are
+// sent redacted; the theme names and summaries come back rehydrated. Returns null when the text
+// has no recognizable comments or no themes were found.
+export async function analyzeFeedback360(text: string, provider: LLMProvider, redactor: Redactor): Promise<Feedback360Analysis | null> {
+  const comments = segmentFeedback360(text)
+  if (comments.length === 0) return null
+  console.log(`Grouping ${comments.length} 360 feedback comments into themes`)
+
+  const response = await provider.complete(buildFeedback360ThemePrompt(comments, redactor.redact), { maxTokens: 2000, json: true })
+  let parsed: any
+  try {
+    parsed = JSON.parse(stripCodeFences(response))
+  } catch (parseError) {
+    console.error('Failed to parse 360 feedback themes:', redactor.redact(response.substring(0, 200)))
+    throw new Error('Could not group the 360 feedback into themes')
+  }
+
+  const themes = validateFeedback360Themes(parsed, comments).map(theme => ({
+    ...theme,
+    theme: redactor.rehydrate(theme.theme),
+    summary: redactor.rehydrate(theme.summary)
+  }))
+  return themes.length > 0 ? { comments, themes } : null
+}
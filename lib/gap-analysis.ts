@@ -0,0 +1,88 @@
+// Self vs. manager ITP gap analysis
+
+import { ITPDimension, ITPScoreInput, ITP_DIMENSIONS, ITP_DIMENSION_LABELS } from './itp'
+
+// blind_spot: the employee rates themselves higher than the manager does
+// hidden_strength: the manager rates the employee higher than they rate themselves
+export type GapClassification = 'blind_spot' | 'hidden_strength' | 'aligned'
+
+export interface GapThresholds {
+  blindSpot: number
+  hiddenStrength: number
+}
+
+export const DEFAULT_GAP_THRESHOLDS: GapThresholds = {
+  blindSpot: 2,
+  hiddenStrength: 2
+}
+
+export interface DimensionGap {
+  dimension: ITPDimension
+  self: number
+  manager: number
+  delta: number // self - manager
+  classification: GapClassification
+}
+
+export interface GapAnalysis {
+  dimensions: DimensionGap[]
+  thresholds: GapThresholds
+}
+
+export const GAP_CLASSIFICATION_LABELS: Record<GapClassification, string> = {
+  blind_spot: 'Blind spot',
+  hidden_strength: 'Hidden strength',
+  aligned: 'Aligned'
+}
+
+function readThreshold(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Thresholds can be tuned per deployment via ITP_BLIND_SPOT_THRESHOLD / ITP_HIDDEN_STRENGTH_THRESHOLD
+export function getGapThresholds(): GapThresholds {
+  return {
+    blindSpot: readThreshold(process.env.ITP_BLIND_SPOT_THRESHOLD, DEFAULT_GAP_THRESHOLDS.blindSpot),
+    hiddenStrength: readThreshold(process.env.ITP_HIDDEN_STRENGTH_THRESHOLD, DEFAULT_GAP_THRESHOLDS.hiddenStrength)
+  }
+}
+
+export function classifyGap(delta: number, thresholds: GapThresholds): GapClassification {
+  if (delta >= thresholds.blindSpot) return 'blind_spot'
+  if (-delta >= thresholds.hiddenStrength) return 'hidden_strength'
+  return 'aligned'
+}
+
+// Only dimensions scored by both the employee and the manager are compared
+export function analyzeITPGaps(
+  self: ITPScoreInput,
+  manager: ITPScoreInput,
+  thresholds: GapThresholds = DEFAULT_GAP_THRESHOLDS
+): GapAnalysis | null {
+  const dimensions: DimensionGap[] = []
+
+  for (const dimension of ITP_DIMENSIONS) {
+    const selfScore = self[dimension]
+    const managerScore = manager[dimension]
+    if (selfScore === undefined || managerScore === undefined) continue
+
+    const delta = selfScore - managerScore
+    dimensions.push({
+      dimension,
+      self: selfScore,
+      manager: managerScore,
+      delta,
+      classification: classifyGap(delta, thresholds)
+    })
+  }
+
+  return dimensions.length > 0 ? { dimensions, thresholds } : null
+}
+
+export function formatGapAnalysis(analysis: GapAnalysis) {
+  return analysis.dimensions.map(gap => {
+    const sign = gap.delta > 0 ? '+' : ''
+    return `- ${ITP_DIMENSION_LABELS[gap.dimension]}: self ${gap.self}, manager ${gap.manager} (delta ${sign}${gap.delta}) - ${GAP_CLASSIFICATION_LABELS[gap.classification]}`
+  }).join('\n')
+}
@@ -0,0 +1,83 @@
+// Progress on the goals set in the employee's previous review, assessed by the model alongside the
+// new review
+
+export type GoalStatus = 'achieved' | 'partially_achieved' | 'not_achieved' | 'no_evidence'
+
+export const GOAL_STATUSES: GoalStatus[] = ['achieved', 'partially_achieved', 'not_achieved', 'no_evidence']
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  achieved: 'Achieved',
+  partially_achieved: 'Partially achieved',
+  not_achieved: 'Not achieved',
+  no_evidence: 'No evidence'
+}
+
+export interface PriorGoal {
+  title: string
+  description: string
+}
+
+export interface GoalProgress {
+  goal: string // the prior goal's title
+  status: GoalStatus
+  assessment: string // what the inputs say about the goal
+}
+
+export function goalProgressJSONTemplate() {
+  return `  "goalProgress": [{ "goal": "<title of one of last cycle's goals>", "status": "${GOAL_STATUSES.join('|')}", "assessment": "<one or two sentences on the progress, based on the data>" }]`
+}
+
+export const GOAL_PROGRESS_INSTRUCTION = `"goalProgress" must have one entry for each of last cycle's goals, in the order they are listed. Use "no_evidence" when the data says nothing about a goal.`
+
+// Goals stored as a numbered list section ("1. Title: description" per line); other text counts
+// as one goal per paragraph
+export function parseGoalList(text: string): PriorGoal[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
+  if (lines.length > 0 && lines.every(line => /^\d+[.)]\s/.test(line))) {
+    return lines.map(line => {
+      const item = line.replace(/^\d+[.)]\s+/, '')
+      const separator = item.indexOf(': ')
+      return separator > 0
+        ? { title: item.substring(0, separator).trim(), description: item.substring(separator + 2).trim() }
+        : { title: item, description: '' }
+    })
+  }
+  return text.split(/\n{2,}/).map(p => p.trim()).filter(Boolean).map(p => ({ title: p, description: '' }))
+}
+
+export function formatPriorGoals(goals: PriorGoal[]) {
+  return goals.map((goal, index) => `${index + 1}. ${goal.title}${goal.description ? `: ${goal.description}` : ''}`).join('\n')
+}
+
+function isGoalStatus(value: unknown): value is GoalStatus {
+  return typeof value === 'string' && (GOAL_STATUSES as string[]).includes(value)
+}
+
+// Errors for the repair prompt when the entries don't line up with the prior goals
+export function validateGoalProgress(raw: unknown, goals: PriorGoal[]): { progress: GoalProgress[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { progress: [], errors: ['"goalProgress" must be a list'] }
+
+  const errors: string[] = []
+  if (raw.length !== goals.length) {
+    errors.push(`"goalProgress" must have exactly ${goals.length} entr${goals.length === 1 ? 'y' : 'ies'}, one per prior goal`)
+  }
+  const progress = raw.slice(0, goals.length).map((item, index) => {
+    if (!isGoalStatus(item?.status)) errors.push(`"goalProgress" item ${index + 1} needs a "status" of ${GOAL_STATUSES.join(', ')}`)
+    if (typeof item?.assessment !== 'string' || !item.assessment.trim()) {
+      errors.push(`"goalProgress" item ${index + 1} needs a non-empty "assessment"`)
+    }
+    // The goal title is taken from the prior review rather than trusting the model's copy
+    return {
+      goal: goals[index].title,
+      status: isGoalStatus(item?.status) ? item.status : 'no_evidence',
+      assessment: String(item?.assessment ?? '').trim()
+    }
+  })
+  return { progress, errors }
+}
+
+export function goalStatusCounts(progress: GoalProgress[]) {
+  const counts = {} as Record<GoalStatus, number>
+  GOAL_STATUSES.forEach(status => { counts[status] = progress.filter(p => p.status === status).length })
+  return counts
+}
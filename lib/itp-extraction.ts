@@ -0,0 +1,125 @@
+// ITP score extraction from uploaded assessment screenshots
+
+import { LLMContentBlock, LLMProvider, stripCodeFences } from './llm'
+import { ITPDimension, ITPScoreInput, ITP_DIMENSIONS, ITP_DIMENSION_LABELS, isValidITPScore } from './itp'
+import { IMAGE_CONTENT_TYPES, UploadedFile } from './uploads'
+
+// Values the model is less sure about than this are flagged for manual correction
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export interface ExtractedScore {
+  value: number | null
+  confidence: number
+  lowConfidence: boolean
+}
+
+export type ITPExtraction = Record<ITPDimension, ExtractedScore>
+
+// A score after merging typed values with screenshot extraction
+export interface ResolvedITPScore {
+  value: number | null
+  source: 'form' | 'screenshot' | null
+  lowConfidence: boolean
+}
+
+export type ResolvedITPScores = Record<ITPDimension, ResolvedITPScore>
+
+const EXTRACTION_PROMPT = `These screenshots show an Ideal Team Player (ITP) assessment.
+Read the scores for the three dimensions: Humble, Hungry and Smart. Scores are on a 1-10 scale.
+
+Return ONLY a valid JSON object (no markdown, no code fences) in exactly this shape:
+{
+  "humble": { "value": <integer 1-10 or null>, "confidence": <number 0-1> },
+  "hungry": { "value": <integer 1-10 or null>, "confidence": <number 0-1> },
+  "smart": { "value": <integer 1-10 or null>, "confidence": <number 0-1> }
+}
+
+Use null with confidence 0 if a score is not visible. Lower the confidence if the image is blurry,
+cropped, or the score has to be inferred (for example from a bar or slider position).`
+
+// Images can't be redacted like text: screenshots reach the provider with any names shown in them
+async function toImageBlock(file: UploadedFile): Promise<LLMContentBlock | null> {
+  if (!IMAGE_CONTENT_TYPES.includes(file.type)) {
+    console.warn(`Skipping unsupported screenshot type: ${file.name} (${file.type})`)
+    return null
+  }
+
+  const data = Buffer.from(await file.arrayBuffer()).toString('base64')
+  return { type: 'image', mediaType: file.type, data }
+}
+
+function normalizeScore(raw: any): ExtractedScore {
+  const value = isValidITPScore(raw?.value) ? raw.value : null
+  const rawConfidence = typeof raw?.confidence === 'number' ? raw.confidence : 0
+  const confidence = value === null ? 0 : Math.min(1, Math.max(0, rawConfidence))
+
+  return {
+    value,
+    confidence,
+    lowConfidence: value === null || confidence < LOW_CONFIDENCE_THRESHOLD
+  }
+}
+
+export async function extractITPScores(files: UploadedFile[], provider: LLMProvider): Promise<ITPExtraction | null> {
+  const imageBlocks = (await Promise.all(files.map(toImageBlock)))
+    .filter((block): block is LLMContentBlock => block !== null)
+
+  if (imageBlocks.length === 0) return null
+
+  const text = await provider.complete(
+    [...imageBlocks, { type: 'text', text: EXTRACTION_PROMPT }],
+    { maxTokens: 300 }
+  )
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(stripCodeFences(text))
+  } catch (parseError) {
+    console.error('Failed to parse ITP extraction response:', text.substring(0, 200))
+    throw new Error('Could not read ITP scores from the uploaded screenshots')
+  }
+
+  return {
+    humble: normalizeScore(parsed.humble),
+    hungry: normalizeScore(parsed.hungry),
+    smart: normalizeScore(parsed.smart)
+  }
+}
+
+// Typed scores always win; extraction only fills dimensions that were left blank
+export function resolveITPScores(typed: ITPScoreInput, extraction: ITPExtraction | null): ResolvedITPScores | null {
+  const resolved = {} as ResolvedITPScores
+
+  for (const dimension of ITP_DIMENSIONS) {
+    const typedValue = typed[dimension]
+    const extracted = extraction?.[dimension]
+
+    if (typedValue !== undefined) {
+      resolved[dimension] = { value: typedValue, source: 'form', lowConfidence: false }
+    } else if (extracted && extracted.value !== null) {
+      resolved[dimension] = { value: extracted.value, source: 'screenshot', lowConfidence: extracted.lowConfidence }
+    } else {
+      resolved[dimension] = { value: null, source: null, lowConfidence: false }
+    }
+  }
+
+  return ITP_DIMENSIONS.some(d => resolved[d].value !== null) ? resolved : null
+}
+
+export function formatResolvedITPScores(label: string, scores: ResolvedITPScores) {
+  const parts = ITP_DIMENSIONS.map(d => {
+    const score = scores[d]
+    if (score.value === null) return `${ITP_DIMENSION_LABELS[d]} not provided`
+    return `${ITP_DIMENSION_LABELS[d]} ${score.value}/10${score.lowConfidence ? ' (low confidence)' : ''}`
+  })
+  return `${label}: ${parts.join(', ')}`
+}
+
+export function toITPScoreInput(scores: ResolvedITPScores | null): ITPScoreInput {
+  const input: ITPScoreInput = {}
+  if (!scores) return input
+  ITP_DIMENSIONS.forEach(d => {
+    if (scores[d].value !== null) input[d] = scores[d].value!
+  })
+  return input
+}
@@ -0,0 +1,71 @@
+// ITP (Ideal Team Player) assessment types and helpers
+
+export type ITPDimension = 'humble' | 'hungry' | 'smart'
+
+export const ITP_DIMENSIONS: ITPDimension[] = ['humble', 'hungry', 'smart']
+
+export const ITP_DIMENSION_LABELS: Record<ITPDimension, string> = {
+  humble: 'Humble',
+  hungry: 'Hungry',
+  smart: 'Smart'
+}
+
+// Matches the CHECK (... BETWEEN 1 AND 10) constraints on the reviews table
+export const ITP_MIN_SCORE = 1
+export const ITP_MAX_SCORE = 10
+
+export interface ITPScores {
+  humble: number
+  hungry: number
+  smart: number
+}
+
+export function isValidITPScore(value: unknown): value is number {
+  return typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= ITP_MIN_SCORE &&
+    value <= ITP_MAX_SCORE
+}
+
+export type ITPScoreInput = Partial<ITPScores>
+
+// Parses a typed score field; returns null for blank input
+export function parseITPScoreText(text: string): number | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  const value = Number(trimmed)
+  return isValidITPScore(value) ? value : null
+}
+
+export function validateITPScoreText(text: string): string | null {
+  if (!text.trim()) return null
+  return parseITPScoreText(text) === null
+    ? `Must be a whole number from ${ITP_MIN_SCORE} to ${ITP_MAX_SCORE}`
+    : null
+}
+
+// Parses the JSON score objects posted alongside the form, e.g. {"humble": 8, "smart": 7}
+export function parseITPScoreInput(raw: string | null): { scores: ITPScoreInput; errors: string[] } {
+  const scores: ITPScoreInput = {}
+  const errors: string[] = []
+  if (!raw) return { scores, errors }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return { scores, errors: ['Scores must be a JSON object'] }
+  }
+
+  for (const dimension of ITP_DIMENSIONS) {
+    const value = parsed?.[dimension]
+    if (value === undefined || value === null) continue
+    if (isValidITPScore(value)) {
+      scores[dimension] = value
+    } else {
+      errors.push(`${ITP_DIMENSION_LABELS[dimension]} must be a whole number from ${ITP_MIN_SCORE} to ${ITP_MAX_SCORE}`)
+    }
+  }
+
+  return { scores, errors }
+}
@@ -0,0 +1,80 @@
+// Anthropic Messages API
+
+import { readSSE } from '../sse'
+import { parseRetryAfter, providerErrorType, LLMContent, LLMProvider, LLMProviderError, LLMRequestOptions } from './types'
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-haiku-20240307'
+
+// Claude has no JSON mode; prefilling the reply with "{" keeps it from adding prose or fences
+const JSON_PREFILL = '{'
+
+function toAnthropicContent(content: LLMContent) {
+  if (typeof content === 'string') return content
+  return content.map(block => block.type === 'text'
+    ? block
+    : { type: 'image', source: { type: 'base64', media_type: block.mediaType, data: block.data } })
+}
+
+export function createAnthropicProvider(model = process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL): LLMProvider {
+  const postMessages = async (content: LLMContent, options: LLMRequestOptions & { stream?: boolean }) => {
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new LLMProviderError('anthropic', 401, 'ANTHROPIC_API_KEY is not set')
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: options.maxTokens ?? 2000,
+        messages: [
+          { role: 'user', content: toAnthropicContent(content) },
+          ...(options.json ? [{ role: 'assistant', content: JSON_PREFILL }] : [])
+        ],
+        ...(options.stream ? { stream: true } : {})
+      })
+    })
+
+    if (!response.ok) {
+      const errText = await response.text()
+      console.error('Claude API error:', response.status, providerErrorType(errText))
+      throw new LLMProviderError('anthropic', response.status, `Claude API error: ${response.status}`, parseRetryAfter(response))
+    }
+
+    return response
+  }
+
+  return {
+    name: 'anthropic',
+    model,
+    isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+    async complete(content, options = {}) {
+      const response = await postMessages(content, options)
+      const result = await response.json()
+      return (options.json ? JSON_PREFILL : '') + (result.content?.[0]?.text || '')
+    },
+
+    async stream(content, onText, options = {}) {
+      const response = await postMessages(content, { ...options, stream: true })
+
+      let text = options.json ? JSON_PREFILL : ''
+      await readSSE(response, (event, data) => {
+        if (event === 'content_block_delta' && data.delta?.type === 'text_delta') {
+          text += data.delta.text
+          onText(text)
+        } else if (event === 'error') {
+          console.error('Claude stream error:', providerErrorType(data.error))
+          const status = data.error?.type === 'overloaded_error' ? 529 : data.error?.type === 'rate_limit_error' ? 429 : 500
+          throw new LLMProviderError('anthropic', status, `Claude API error: ${data.error?.type || 'stream error'}`)
+        }
+      })
+      return text
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// Language model providers. The provider comes from the request when one is given,
+// otherwise from LLM_PROVIDER (default: anthropic). The mock provider is only available in tests
+// or with ENABLE_MOCK_LLM=true, so its canned text can't be saved as a real review.
+
+import { createAnthropicProvider } from './anthropic'
+import { createLocalProvider, createOpenAIProvider } from './openai'
+import { createMockProvider } from './mock'
+import { LLMProvider, LLMProviderName } from './types'
+
+export * from './types'
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['anthropic', 'openai', 'local', 'mock']
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  anthropic: 'Anthropic Claude',
+  openai: 'OpenAI',
+  local: 'Local model',
+  mock: 'Mock (testing)'
+}
+
+const PROVIDER_FACTORIES: Record<LLMProviderName, () => LLMProvider> = {
+  anthropic: () => createAnthropicProvider(),
+  openai: () => createOpenAIProvider(),
+  local: () => createLocalProvider(),
+  mock: createMockProvider
+}
+
+export function isMockProviderEnabled() {
+  return process.env.NODE_ENV === 'test' || process.env.ENABLE_MOCK_LLM === 'true'
+}
+
+// Providers that can be used in this environment
+export function availableProviderNames(): LLMProviderName[] {
+  return LLM_PROVIDER_NAMES.filter(name => name !== 'mock' || isMockProviderEnabled())
+}
+
+export function isLLMProviderName(value: string): value is LLMProviderName {
+  return (availableProviderNames() as string[]).includes(value)
+}
+
+export function getDefaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER || 'anthropic'
+  if (!isLLMProviderName(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected one of ${availableProviderNames().join(', ')})`)
+  }
+  return configured
+}
+
+export function getLLMProvider(name?: LLMProviderName): LLMProvider {
+  return PROVIDER_FACTORIES[name || getDefaultProviderName()]()
+}
+
+// The provider named in a request, or the default when none was named.
+// Returns null for names that aren't recognised.
+export function getRequestedProvider(name: string | null): LLMProvider | null {
+  if (!name) return getLLMProvider()
+  return isLLMProviderName(name) ? getLLMProvider(name) : null
+}
+
+// Stored in reviews.ai_model_used, e.g. "anthropic:claude-3-haiku-20240307"
+export function modelIdentifier(provider: LLMProvider) {
+  return `${provider.name}:${provider.model}`
+}
+
+// Strip any markdown code fences the model wraps around JSON output
+export function stripCodeFences(text: string) {
+  return text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+}
@@ -0,0 +1,122 @@
+// Deterministic provider for tests and for trying the app without an API key.
+// Responses depend only on which prompt is sent, so runs are repeatable.
+
+import { LLMContent, LLMProvider } from './types'
+
+export const MOCK_MODEL = 'mock-1'
+
+const MOCK_LIST = [
+  { title: 'Mock goal one', description: 'Lead the next release.' },
+  { title: 'Mock goal two', description: 'Mentor a new team member.' },
+  { title: 'Mock goal three', description: 'Improve test coverage.' },
+  { title: 'Mock goal four', description: 'Present at a team demo.' }
+]
+
+// Matches the keys of the review JSON template in the prompt, e.g. `  "strengths": "...`
+const TEMPLATE_KEY = /^  "(\w+)": ([["{])/gm
+const RATING_KEY = /"(\w+)": <whole number from (\d+)/g
+const MANAGER_COMMENTS = /\[managerComments\] Manager Comments: ([^\n]{1,40})/
+// The numbered goals listed under the previous review in the prompt
+const PRIOR_GOALS = /Goals set in the .* review:\n((?:\d+\. [^\n]*\n?)+)/
+// The ids of the comments listed in a 360 theming prompt, e.g. `[c3] (Peers) ...`
+const COMMENT_ID = /^\[(c\d+)\] /gm
+
+const MOCK_ITP_SCORES = {
+  humble: { value: 8, confidence: 0.9 },
+  hungry: { value: 7, confidence: 0.9 },
+  smart: { value: 8, confidence: 0.6 }
+}
+
+const STREAM_CHUNK_SIZE = 20
+
+function promptText(content: LLMContent) {
+  if (typeof content === 'string') return content
+  return content.map(block => block.type === 'text' ? block.text : '').join('\n')
+}
+
+function mockResponse(content: LLMContent) {
+  const prompt = promptText(content)
+  if (prompt.includes('"humble"')) return JSON.stringify(MOCK_ITP_SCORES)
+  if (prompt.includes('"commentIds"')) return JSON.stringify(mockFeedback360Themes(prompt))
+  const review = mockReview(prompt)
+  return review ? JSON.stringify(review) : 'Mock response.'
+}
+
+// Fills every section of the review template in the prompt: paragraphs with text naming the
+// section, lists with the mock goals and ratings with the bottom of each scale. Each paragraph's
+// sentence cites the manager comments when there are any, and is unsupported otherwise. Prior
+// goals are all reported as having no evidence.
+function mockReview(prompt: string) {
+  const review: Record<string, unknown> = {}
+  let match: RegExpExecArray | null
+  while ((match = TEMPLATE_KEY.exec(prompt))) {
+    const [, key, opening] = match
+    if (opening === '"') review[key] = `Mock ${key}: consistently delivers on commitments. Data confidence is based on the inputs provided.`
+    else if (key === 'goalProgress') review[key] = mockGoalProgress(prompt)
+    else if (opening === '[') review[key] = MOCK_LIST
+    else if (key === 'evidence') review[key] = mockEvidence(review, prompt)
+    else {
+      const ratings: Record<string, number> = {}
+      let rating: RegExpExecArray | null
+      while ((rating = RATING_KEY.exec(prompt))) ratings[rating[1]] = Number(rating[2])
+      review[key] = ratings
+    }
+  }
+  return Object.keys(review).length > 0 ? review : null
+}
+
+function mockEvidence(review: Record<string, unknown>, prompt: string) {
+  const comments = MANAGER_COMMENTS.exec(prompt)
+  const evidence: Record<string, unknown> = {}
+  Object.keys(review).forEach(key => {
+    const text = review[key]
+    if (typeof text !== 'string') return
+    evidence[key] = [{
+      claim: text.split('. ')[0],
+      sources: comments ? [{ source: 'managerComments', quote: comments[1] }] : []
+    }]
+  })
+  return evidence
+}
+
+function mockGoalProgress(prompt: string) {
+  const goals = PRIOR_GOALS.exec(prompt)
+  return (goals ? goals[1].trim().split('\n') : []).map(line => ({
+    goal: line.replace(/^\d+\. /, ''),
+    status: 'no_evidence',
+    assessment: 'Mock assessment: the inputs do not mention this goal.'
+  }))
+}
+
+// Two themes: every comment in the first, every other comment in the second
+function mockFeedback360Themes(prompt: string) {
+  const ids: string[] = []
+  let match: RegExpExecArray | null
+  while ((match = COMMENT_ID.exec(prompt))) ids.push(match[1])
+  return {
+    themes: [
+      { theme: 'Mock collaboration', sentiment: 'positive', summary: 'Mock summary: raters value working together.', commentIds: ids },
+      { theme: 'Mock prioritization', sentiment: 'mixed', summary: 'Mock summary: raters see room to focus.', commentIds: ids.filter((_, i) => i % 2 === 1) }
+    ]
+  }
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    model: MOCK_MODEL,
+    isConfigured: () => true,
+
+    async complete(content) {
+      return mockResponse(content)
+    },
+
+    async stream(content, onText) {
+      const text = mockResponse(content)
+      for (let i = STREAM_CHUNK_SIZE; i < text.length + STREAM_CHUNK_SIZE; i += STREAM_CHUNK_SIZE) {
+        onText(text.substring(0, i))
+      }
+      return text
+    }
+  }
+}
@@ -0,0 +1,108 @@
+// OpenAI Chat Completions API, also used for OpenAI-compatible local servers such as Ollama
+
+import { readSSE } from '../sse'
+import { parseRetryAfter, providerErrorType, LLMContent, LLMProvider, LLMProviderError, LLMProviderName, LLMRequestOptions } from './types'
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+export const DEFAULT_LOCAL_MODEL = 'llama3.1'
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+
+interface OpenAICompatibleConfig {
+  name: LLMProviderName
+  label: string
+  baseUrl: string
+  model: string
+  apiKey?: string
+  // Local servers usually need no key, so configuration is checked separately
+  isConfigured: () => boolean
+}
+
+function toOpenAIContent(content: LLMContent) {
+  if (typeof content === 'string') return content
+  return content.map(block => block.type === 'text'
+    ? block
+    : { type: 'image_url', image_url: { url: `data:${block.mediaType};base64,${block.data}` } })
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const postCompletions = async (content: LLMContent, options: LLMRequestOptions & { stream?: boolean }) => {
+    if (!config.isConfigured()) {
+      throw new LLMProviderError(config.name, 401, `${config.label} is not configured`)
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: options.maxTokens ?? 2000,
+        messages: [{ role: 'user', content: toOpenAIContent(content) }],
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(options.stream ? { stream: true } : {})
+      })
+    })
+
+    if (!response.ok) {
+      const errText = await response.text()
+      console.error(`${config.label} API error:`, response.status, providerErrorType(errText))
+      throw new LLMProviderError(config.name, response.status, `${config.label} API error: ${response.status}`, parseRetryAfter(response))
+    }
+
+    return response
+  }
+
+  return {
+    name: config.name,
+    model: config.model,
+    isConfigured: config.isConfigured,
+
+    async complete(content, options = {}) {
+      const response = await postCompletions(content, options)
+      const result = await response.json()
+      return result.choices?.[0]?.message?.content || ''
+    },
+
+    async stream(content, onText, options = {}) {
+      const response = await postCompletions(content, { ...options, stream: true })
+
+      let text = ''
+      await readSSE(response, (_event, data) => {
+        if (data.error) {
+          console.error(`${config.label} stream error:`, providerErrorType(data.error))
+          throw new LLMProviderError(config.name, 500, `${config.label} API error: ${data.error.message || 'stream error'}`)
+        }
+        const delta = data.choices?.[0]?.delta?.content
+        if (delta) {
+          text += delta
+          onText(text)
+        }
+      })
+      return text
+    }
+  }
+}
+
+export function createOpenAIProvider(model = process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    label: 'OpenAI',
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    model,
+    apiKey: process.env.OPENAI_API_KEY,
+    isConfigured: () => !!process.env.OPENAI_API_KEY
+  })
+}
+
+export function createLocalProvider(model = process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'local',
+    label: 'Local model',
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+    model,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    isConfigured: () => !!process.env.LOCAL_LLM_BASE_URL
+  })
+}
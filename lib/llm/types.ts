@@ -0,0 +1,62 @@
+// Shared types for the language model providers
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'local' | 'mock'
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string } // data is base64
+
+export type LLMContent = string | LLMContentBlock[]
+
+export interface LLMRequestOptions {
+  maxTokens?: number
+  // Ask for a single JSON object, using the provider's JSON mode where it has one
+  json?: boolean
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  isConfigured(): boolean
+  complete(content: LLMContent, options?: LLMRequestOptions): Promise<string>
+  // onText is called with the text received so far after each chunk
+  stream(content: LLMContent, onText: (textSoFar: string) => void, options?: LLMRequestOptions): Promise<string>
+}
+
+export class LLMProviderError extends Error {
+  provider: LLMProviderName
+  status: number
+  // Seconds to wait before retrying, from the API's retry-after header on rate limit responses
+  retryAfter: number | null
+
+  constructor(provider: LLMProviderName, status: number, message: string, retryAfter: number | null = null) {
+    super(message)
+    this.name = 'LLMProviderError'
+    this.provider = provider
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+// 429 is a rate limit; Anthropic returns 529 when it is overloaded
+export function isRateLimitError(error: unknown): error is LLMProviderError {
+  return error instanceof LLMProviderError && (error.status === 429 || error.status === 529)
+}
+
+// The error type from a provider's error body, for logging. The message is left out: it can quote
+// the prompt, and provider logs don't go through the redacting logger.
+export function providerErrorType(error: any): string {
+  if (typeof error === 'string') {
+    try {
+      return providerErrorType(JSON.parse(error).error)
+    } catch {
+      return 'unreadable error body'
+    }
+  }
+  return String(error?.type || error?.code || 'unknown error')
+}
+
+export function parseRetryAfter(response: Response): number | null {
+  const seconds = Number(response.headers.get('retry-after'))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null
+}
@@ -0,0 +1,39 @@
+// Reads string values out of a JSON object that is still being streamed
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+
+// Values cut off mid-stream are returned as far as they go; a trailing incomplete
+// escape sequence is left out until the rest of it arrives
+export function extractPartialStrings<K extends string>(text: string, keys: K[]): Partial<Record<K, string>> {
+  const values: Partial<Record<K, string>> = {}
+  keys.forEach(key => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text)
+    if (match) values[key] = readJSONString(text, match.index + match[0].length)
+  })
+  return values
+}
+
+function readJSONString(text: string, start: number) {
+  let value = ''
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') break
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+
+    const next = text[i + 1]
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = text.substr(i + 2, 4)
+      if (hex.length < 4) break
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+    } else {
+      value += ESCAPES[next] ?? next
+      i += 1
+    }
+  }
+  return value
+}
@@ -1,60 +1,47 @@
-// PDF text extraction utilities
-
-export async function extractTextFromPDF(file: File): Promise<string> {
-  // For client-side PDF parsing, we'd use pdf-js or similar
-  // This is a placeholder for the actual implementation
-  
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    
-    reader.onload = async (e) => {
-      try {
-        const arrayBuffer = e.target?.result as ArrayBuffer
-        
-        // In a real implementation, you'd use pdf-parse or pdf-js here
-        // For now, simulate text extraction
-        const simulatedText = `
-[Simulated PDF text extraction from: ${file.name}]
-
-This employee demonstrates exceptional technical capabilities across multiple domains including AI, CMS, CRM, and electrical infrastructure. Their ability to translate complex technical concepts into meaningful business applications positions them well for expanded leadership responsibilities.
-
-Key strengths identified:
-- Strategic thinking combined with hands-on execution
-- Cross-functional understanding and collaboration
-- Systems-level approach to problem solving
-- Innovation and creative problem-solving capabilities
-
-Development areas:
-- Communication consistency and responsiveness  
-- Project follow-through and execution discipline
-- Time management and workload prioritization
-- Leadership transition from individual contributor to team builder
-
-Overall assessment indicates strong potential for growth with focus needed on operational excellence and stakeholder communication.
-        `
-        
-        resolve(simulatedText.trim())
-      } catch (error) {
-        reject(error)
-      }
-    }
-    
-    reader.onerror = () => reject(new Error('Failed to read PDF file'))
-    reader.readAsArrayBuffer(file)
-  })
+// PDF text extraction utilities (server-side)
+
+import { extractText } from 'unpdf'
+
+// Documents averaging fewer characters per page than this have no usable text layer
+const MIN_CHARS_PER_PAGE = 20
+
+export interface PDFTextExtraction {
+  text: string
+  pages: string[]
+  pageCount: number
+}
+
+export type PDFExtractionErrorCode = 'unreadable_pdf' | 'scanned_pdf'
+
+export class PDFExtractionError extends Error {
+  code: PDFExtractionErrorCode
+
+  constructor(code: PDFExtractionErrorCode, message: string) {
+    super(message)
+    this.name = 'PDFExtractionError'
+    this.code = code
+  }
 }
 
-export function validatePDFFile(file: File): { valid: boolean; error?: string } {
-  // Check file type
-  if (file.type !== 'application/pdf') {
-    return { valid: false, error: 'File must be a PDF' }
+export async function extractTextFromPDF(data: ArrayBuffer): Promise<PDFTextExtraction> {
+  let result: { totalPages: number; text: string[] }
+  try {
+    result = await extractText(new Uint8Array(data))
+  } catch (error) {
+    console.error('PDF parsing failed:', error instanceof Error ? error.message : error)
+    throw new PDFExtractionError('unreadable_pdf', 'The PDF could not be read. It may be corrupted or password protected.')
   }
-  
-  // Check file size (max 10MB)
-  const maxSize = 10 * 1024 * 1024 // 10MB in bytes
-  if (file.size > maxSize) {
-    return { valid: false, error: 'File size must be less than 10MB' }
+
+  const pages = result.text.map(page => page.replace(/[ \t]+\n/g, '\n').trim())
+  const text = pages.filter(Boolean).join('\n\n')
+
+  // Scanned documents are images of pages; there is nothing to extract without OCR
+  if (text.replace(/\s/g, '').length < MIN_CHARS_PER_PAGE * Math.max(1, result.totalPages)) {
+    throw new PDFExtractionError(
+      'scanned_pdf',
+      'This PDF has no text layer (it looks like a scanned document). Please export the 360 report as a text-based PDF.'
+    )
   }
-  
-  return { valid: true }
-}
\ No newline at end of file
+
+  return { text, pages, pageCount: result.totalPages }
+}
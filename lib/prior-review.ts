@@ -0,0 +1,90 @@
+// The employee's reviews from earlier cycles, for synthesis: the goals set in the previous cycle's
+// review and the ITP scores across cycles
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Review, ReviewCycle } from './supabase'
+import { ITP_DIMENSIONS, ITP_DIMENSION_LABELS, ITPScoreInput } from './itp'
+import { columnsToITPScores } from './reviews'
+import { currentSections } from './review-sections'
+import { getReviewTemplate } from './review-templates'
+import { formatPriorGoals, parseGoalList, PriorGoal } from './goal-progress'
+
+export interface ITPTrendPoint {
+  cycleName: string
+  self: ITPScoreInput
+  manager: ITPScoreInput
+}
+
+export interface PriorReview {
+  reviewId: string
+  cycleName: string
+  goals: PriorGoal[]
+  // Earlier cycles with ITP scores, oldest first
+  itpTrend: ITPTrendPoint[]
+}
+
+type CycleDates = Pick<ReviewCycle, 'id' | 'name' | 'start_date'>
+
+// The goals section is found by name, since templates choose their own section keys
+async function priorGoals(client: SupabaseClient, review: Review): Promise<PriorGoal[]> {
+  const template = await getReviewTemplate(client, review)
+  const section = template.sections.find(s => /goal/i.test(`${s.key} ${s.title}`))
+  if (!section) return []
+  return parseGoalList(currentSections(review, template.sections)[section.key])
+}
+
+type EarlierReview = Review & { cycle: CycleDates }
+
+// The most recent finalized review from a cycle that started before this one, or null for a first
+// review. Drafts and abandoned reviews never reached the employee, so they are left out.
+export async function loadPriorReview(client: SupabaseClient, employeeId: string, reviewCycleId: string): Promise<PriorReview | null> {
+  const { data: current, error: cycleError } = await client
+    .from('review_cycles')
+    .select('start_date')
+    .eq('id', reviewCycleId)
+    .maybeSingle()
+  if (cycleError) throw cycleError
+  if (!current) return null
+
+  const { data, error } = await client
+    .from('reviews')
+    .select('*, cycle:review_cycles!inner(id, name, start_date)')
+    .eq('employee_id', employeeId)
+    .eq('status', 'finalized')
+    .lt('cycle.start_date', current.start_date)
+    .order('cycle(start_date)')
+    .returns<EarlierReview[]>()
+  if (error) throw error
+
+  const earlier = data || []
+  if (earlier.length === 0) return null
+
+  const previous = earlier[earlier.length - 1]
+  return {
+    reviewId: previous.id,
+    cycleName: previous.cycle.name,
+    goals: await priorGoals(client, previous),
+    itpTrend: earlier
+      .map(review => ({ cycleName: review.cycle.name, ...columnsToITPScores(review) }))
+      .filter(point => Object.keys(point.self).length > 0 || Object.keys(point.manager).length > 0)
+  }
+}
+
+function formatScores(scores: ITPScoreInput) {
+  return ITP_DIMENSIONS.map(d => `${ITP_DIMENSION_LABELS[d]} ${scores[d] ?? '-'}`).join(', ')
+}
+
+// Prompt text for the previous review, with this cycle's scores last so the trend reads in order
+export function formatPriorReview(prior: PriorReview, current: { self: ITPScoreInput; manager: ITPScoreInput }) {
+  const blocks: string[] = []
+  if (prior.goals.length > 0) {
+    blocks.push(`Goals set in the ${prior.cycleName} review:\n${formatPriorGoals(prior.goals)}`)
+  }
+  if (prior.itpTrend.length > 0) {
+    const points = prior.itpTrend.concat({ cycleName: 'This cycle', ...current })
+    blocks.push(`ITP score trend across cycles:\n${points
+      .map(p => `- ${p.cycleName}: self ${formatScores(p.self)}; manager ${formatScores(p.manager)}`)
+      .join('\n')}`)
+  }
+  return blocks.join('\n\n')
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { createRedactor, parseSensitiveTopics, DEFAULT_EMPLOYEE_ID_PATTERN, DEFAULT_SENSITIVE_TOPICS, RedactionOptions } from './redaction'
+
+function redactor(options: Partial<RedactionOptions> = {}) {
+  return createRedactor({
+    names: ['Jane Doe', 'Mark Smith'],
+    sensitiveTopics: DEFAULT_SENSITIVE_TOPICS,
+    employeeIdPattern: new RegExp(DEFAULT_EMPLOYEE_ID_PATTERN, 'gi'),
+    ...options
+  })
+}
+
+describe('createRedactor', () => {
+  it('replaces full names and name parts with placeholders numbered by person', () => {
+    const r = redactor()
+    expect(r.redact('Jane Doe helped Mark Smith. Jane and Mark paired, and Doe reviewed it.'))
+      .toBe('[PERSON_1] helped [PERSON_2]. [PERSON_1_1] and [PERSON_2_1] paired, and [PERSON_1_2] reviewed it.')
+  })
+
+  it('matches names in any case', () => {
+    const r = redactor()
+    expect(r.redact('JANE DOE spoke to jane.')).toBe('[PERSON_1] spoke to [PERSON_1_1].')
+  })
+
+  it('redacts name parts that are ordinary words, even at the start of a sentence', () => {
+    const r = redactor()
+    expect(r.redact('Mark is great. Will you ask mark?')).toBe('[PERSON_1_1] is great. Will you ask [PERSON_1_1]?')
+  })
+
+  it('gives a name part shared by two people a placeholder of its own', () => {
+    const r = redactor({ names: ['Jane Doe', 'Jane Roe'] })
+    expect(r.redact('Jane Doe and Jane Roe; Jane said so.')).toBe('[PERSON_1] and [PERSON_2]; [PERSON_3] said so.')
+  })
+
+  it('redacts emails, phone numbers and employee IDs', () => {
+    const r = redactor()
+    expect(r.redact('Reach jane.doe@example.com or 555-123-4567 about EMP-1234.'))
+      .toBe('Reach [EMAIL_1] or [PHONE_1] about [EMPLOYEE_ID_1].')
+  })
+
+  it('withholds sentences about sensitive topics', () => {
+    const r = redactor()
+    expect(r.redact('Strong quarter. She was on sick leave in May. Shipped the API.'))
+      .toBe('Strong quarter. [WITHHELD: medical] Shipped the API.')
+  })
+
+  it('puts back what it replaced and drops withheld markers', () => {
+    const r = redactor()
+    const text = 'Jane Doe led the launch. Jane mentored Doe\'s team. Email jane@example.com. She had surgery. Great year.'
+    expect(r.rehydrate(r.redact(text))).toBe('Jane Doe led the launch. Jane mentored Doe\'s team. Email jane@example.com. Great year.')
+  })
+
+  it('puts back names as they were given and leaves no stray spaces around withheld text', () => {
+    const r = redactor()
+    const redacted = r.redact('jane shipped it.')
+    expect(r.rehydrate(`[WITHHELD: medical] ${redacted} [WITHHELD: legal]\n[WITHHELD: legal] Next.`))
+      .toBe('Jane shipped it.\nNext.')
+  })
+
+  it('rehydrates a name part the input only used as part of the full name', () => {
+    const r = redactor()
+    r.redact('Jane Doe did well.')
+    expect(r.rehydrate('[PERSON_1_1] did well.')).toBe('Jane did well.')
+  })
+})
+
+describe('parseSensitiveTopics', () => {
+  it('parses topics and their terms', () => {
+    expect(parseSensitiveTopics('medical:surgery|sick leave, legal:lawsuit,empty:')).toEqual([
+      { topic: 'medical', terms: ['surgery', 'sick leave'] },
+      { topic: 'legal', terms: ['lawsuit'] }
+    ])
+  })
+})
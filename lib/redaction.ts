@@ -0,0 +1,194 @@
+// PII redaction for text sent to external AI providers. Names, emails, phone numbers and employee IDs
+// are replaced with placeholders before the prompt is built and put back into the model's output.
+// Sentences about sensitive topics on the deny-list are withheld entirely and never put back.
+
+import { splitSentences } from './review-evidence'
+
+export type RedactionKind = 'PERSON' | 'EMAIL' | 'PHONE' | 'EMPLOYEE_ID'
+
+export interface SensitiveTopic {
+  topic: string
+  terms: string[] // whole words or phrases, matched case-insensitively
+}
+
+export interface RedactionOptions {
+  // Full names of people who may be mentioned; first and last names are matched on their own too
+  names: string[]
+  sensitiveTopics: SensitiveTopic[]
+  employeeIdPattern: RegExp | null
+}
+
+export interface Redactor {
+  redact(text: string): string
+  rehydrate(text: string): string
+}
+
+export const DEFAULT_SENSITIVE_TOPICS: SensitiveTopic[] = [
+  {
+    topic: 'medical',
+    terms: ['medical', 'diagnosis', 'diagnosed', 'illness', 'surgery', 'therapy', 'therapist', 'medication',
+      'disability', 'mental health', 'depression', 'anxiety', 'cancer', 'sick leave', 'hospital', 'hospitalized']
+  },
+  {
+    topic: 'legal',
+    terms: ['lawsuit', 'litigation', 'attorney', 'lawyer', 'legal action', 'arrested', 'arrest', 'court case',
+      'settlement', 'grievance', 'tribunal', 'criminal']
+  }
+]
+
+export const DEFAULT_EMPLOYEE_ID_PATTERN = '\\b(?:EMP|EID)[-#: ]?\\d{3,}\\b'
+
+export const REDACTION_INSTRUCTION = 'Personal details in the data have been replaced with placeholders such as [PERSON_1] or [EMAIL_1]; refer to people by their placeholders exactly as written. [PERSON_1_1], [PERSON_1_2] and so on stand for parts of [PERSON_1]\'s name, such as their first name, and refer to the same person. Text marked [WITHHELD: topic] was removed on purpose; do not mention or speculate about it.'
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g
+const PLACEHOLDER_PATTERN = /\[(PERSON|EMAIL|PHONE|EMPLOYEE_ID)_(\d+)(?:_(\d+))?\]/g
+const WITHHELD_PATTERN = /([ \t]*)\[WITHHELD: [^\]]*\]([ \t]*)/g
+// Single letters are initials, which would match every "a" or "I"
+const MIN_NAME_PART_LENGTH = 2
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Topics are configured as "topic:term|term,topic:term", e.g. "medical:surgery|sick leave,legal:lawsuit"
+export function parseSensitiveTopics(value: string): SensitiveTopic[] {
+  return value.split(',').map(entry => {
+    const [topic, terms = ''] = entry.split(':')
+    return { topic: topic.trim(), terms: terms.split('|').map(term => term.trim()).filter(Boolean) }
+  }).filter(entry => entry.topic && entry.terms.length > 0)
+}
+
+// The deny-list and employee ID format can be set per deployment via REDACTION_DENY_LIST and
+// REDACTION_EMPLOYEE_ID_PATTERN ("none" turns either off)
+export function getRedactionSettings(): Omit<RedactionOptions, 'names'> {
+  const denyList = process.env.REDACTION_DENY_LIST?.trim()
+  const idPattern = process.env.REDACTION_EMPLOYEE_ID_PATTERN?.trim()
+  return {
+    sensitiveTopics: !denyList ? DEFAULT_SENSITIVE_TOPICS : denyList === 'none' ? [] : parseSensitiveTopics(denyList),
+    employeeIdPattern: idPattern === 'none' ? null : new RegExp(idPattern || DEFAULT_EMPLOYEE_ID_PATTERN, 'gi')
+  }
+}
+
+interface NameForm {
+  form: string
+  person: string
+  // Position of the form in the person's full name (1 = first name), or null for the full name
+  part: number | null
+}
+
+// Every form a person may be mentioned by, keyed by its lowercase form and longest first so full
+// names win over their parts. A first or last name shared by two people counts as a person of its
+// own rather than picking one.
+function nameForms(names: string[]): NameForm[] {
+  const owners: Record<string, NameForm> = {}
+  const shared: Record<string, boolean> = {}
+  names.map(name => name.trim().replace(/\s+/g, ' ')).filter(Boolean).forEach(name => {
+    const words = name.split(' ')
+    const personForms: NameForm[] = [{ form: name, person: name, part: null }]
+    if (words.length > 1) {
+      words.forEach((word, index) => {
+        if (word.length >= MIN_NAME_PART_LENGTH) personForms.push({ form: word, person: name, part: index + 1 })
+      })
+    }
+    personForms.forEach(f => {
+      const key = f.form.toLowerCase()
+      if (owners[key] && owners[key].person.toLowerCase() !== name.toLowerCase()) shared[key] = true
+      else if (!owners[key]) owners[key] = f
+    })
+  })
+  return Object.keys(owners)
+    .map(key => shared[key] ? { form: owners[key].form, person: owners[key].form, part: null } : owners[key])
+    .sort((a, b) => b.form.length - a.form.length)
+}
+
+export function createRedactor(options: RedactionOptions): Redactor {
+  const forms = nameForms(options.names)
+  const namePattern = forms.length > 0
+    ? new RegExp(`\\b(?:${forms.map(f => escapeRegExp(f.form)).join('|')})\\b`, 'gi')
+    : null
+  const formInfo: Record<string, NameForm> = {}
+  forms.forEach(f => { formInfo[f.form.toLowerCase()] = f })
+
+  const topics = options.sensitiveTopics.map(topic => ({
+    topic: topic.topic,
+    pattern: new RegExp(`\\b(?:${topic.terms.map(escapeRegExp).join('|')})\\b`, 'i')
+  }))
+
+  // The same value always gets the same placeholder, so the model can tell mentions apart.
+  // Each placeholder is put back as the first form it replaced.
+  const placeholders: Record<string, string> = {}
+  const originals: Record<string, string> = {}
+  const counts: Record<string, number> = {}
+  const placeholderFor = (kind: RedactionKind, key: string, original: string) => {
+    const id = `${kind}:${key.toLowerCase()}`
+    if (!placeholders[id]) {
+      counts[kind] = (counts[kind] || 0) + 1
+      placeholders[id] = `[${kind}_${counts[kind]}]`
+      originals[placeholders[id]] = original
+    }
+    return placeholders[id]
+  }
+
+  // A person's full name and each part of it get placeholders of their own, numbered by person
+  // ([PERSON_1], [PERSON_1_1]). Names are matched in any case and put back as they were given.
+  const personPlaceholderFor = (match: string) => {
+    const { form, person, part } = formInfo[match.toLowerCase()]
+    const personPlaceholder = placeholderFor('PERSON', person, person)
+    if (part === null) return personPlaceholder
+    const placeholder = `${personPlaceholder.slice(0, -1)}_${part}]`
+    originals[placeholder] = form
+    return placeholder
+  }
+
+  const withholdTopics = (text: string) => {
+    if (topics.length === 0) return text
+    return splitSentences(text).map(sentence => {
+      const match = topics.find(t => t.pattern.test(sentence))
+      if (!match) return sentence
+      const trailing = sentence.match(/\s*$/)![0]
+      return `[WITHHELD: ${match.topic}]${trailing}`
+    }).join('')
+  }
+
+  return {
+    redact(text: string) {
+      let redacted = withholdTopics(text)
+        .replace(EMAIL_PATTERN, email => placeholderFor('EMAIL', email, email))
+        .replace(PHONE_PATTERN, phone => placeholderFor('PHONE', phone.replace(/\D/g, ''), phone))
+      if (options.employeeIdPattern) {
+        const idPattern = new RegExp(options.employeeIdPattern.source, options.employeeIdPattern.flags)
+        redacted = redacted.replace(idPattern, id => placeholderFor('EMPLOYEE_ID', id, id))
+      }
+      if (namePattern) {
+        redacted = redacted.replace(namePattern, personPlaceholderFor)
+      }
+      return redacted
+    },
+
+    rehydrate(text: string) {
+      return text
+        .replace(PLACEHOLDER_PATTERN, (placeholder: string, kind: string, number: string, part?: string) => {
+          if (originals[placeholder]) return originals[placeholder]
+          // A part of a person's name that the input never used on its own
+          const person = part ? originals[`[${kind}_${number}]`] : undefined
+          return person?.split(' ')[Number(part) - 1] ?? placeholder
+        })
+        // Withheld sentences are dropped along with the space that separated them
+        .replace(WITHHELD_PATTERN, (marker: string, before: string, after: string, offset: number, whole: string) => {
+          if (offset === 0 || whole[offset - 1] === '\n') return before
+          return before && after && offset + marker.length < whole.length && whole[offset + marker.length] !== '\n' ? ' ' : ''
+        })
+    }
+  }
+}
+
+// console logging with every string argument redacted
+export function redactingLogger(redactor: Redactor) {
+  const redactArgs = (args: unknown[]) => args.map(arg => typeof arg === 'string' ? redactor.redact(arg) : arg)
+  return {
+    log: (...args: unknown[]) => console.log(...redactArgs(args)),
+    warn: (...args: unknown[]) => console.warn(...redactArgs(args)),
+    error: (...args: unknown[]) => console.error(...redactArgs(args))
+  }
+}
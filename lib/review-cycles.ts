@@ -0,0 +1,166 @@
+// Review cycle lifecycle (draft -> active -> completed) and the review locking that goes with it
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Review, ReviewCycle, ReviewCycleStatus, ReviewStatus } from './supabase'
+
+export const REVIEW_CYCLE_STATUS_LABELS: Record<ReviewCycleStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  completed: 'Closed'
+}
+
+// A transition that the cycle's current state or the one-active-cycle-per-year rule doesn't allow
+export class CycleStateError extends Error {
+  status = 409
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'CycleStateError'
+  }
+}
+
+// Edits to a review in a closed cycle that hasn't been reopened
+export class ReviewLockedError extends Error {
+  status = 423
+
+  constructor(message = 'This review cycle is closed. Ask an admin to reopen the review to make changes.') {
+    super(message)
+    this.name = 'ReviewLockedError'
+  }
+}
+
+export interface ReviewCycleInput {
+  name: string
+  year: number
+  start_date: string
+  end_date: string
+}
+
+export interface UnfinalizedReview {
+  employee: { id: string; name: string; department: string | null; manager_id: string }
+  reviewId: string | null
+  status: ReviewStatus | null
+  reopened: boolean
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function validateCycleInput(body: any): { input: ReviewCycleInput | null; errors: string[] } {
+  const errors: string[] = []
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  const year = Number(body?.year)
+
+  if (!name) errors.push('Name is required')
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) errors.push('Year must be a four-digit year')
+  if (!DATE_PATTERN.test(body?.start_date || '')) errors.push('Start date must be a date (YYYY-MM-DD)')
+  if (!DATE_PATTERN.test(body?.end_date || '')) errors.push('End date must be a date (YYYY-MM-DD)')
+  if (errors.length === 0 && body.end_date < body.start_date) errors.push('End date must be on or after the start date')
+
+  if (errors.length > 0) return { input: null, errors }
+  return { input: { name, year, start_date: body.start_date, end_date: body.end_date }, errors: [] }
+}
+
+export async function getReviewCycle(client: SupabaseClient, id: string): Promise<ReviewCycle | null> {
+  const { data, error } = await client
+    .from('review_cycles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// New cycles start as drafts and are activated separately
+export async function createReviewCycle(client: SupabaseClient, userId: string, input: ReviewCycleInput): Promise<ReviewCycle> {
+  const { data, error } = await client
+    .from('review_cycles')
+    .insert({ ...input, status: 'draft', created_by: userId })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+async function setCycleStatus(client: SupabaseClient, id: string, status: ReviewCycleStatus): Promise<ReviewCycle> {
+  const { data, error } = await client
+    .from('review_cycles')
+    .update({ status })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    // idx_review_cycles_one_active_per_year catches a concurrent activation
+    if (error.code === '23505') throw new CycleStateError('Another cycle is already active for this year')
+    throw error
+  }
+  return data
+}
+
+export async function activateReviewCycle(client: SupabaseClient, cycle: ReviewCycle): Promise<ReviewCycle> {
+  if (cycle.status !== 'draft') {
+    throw new CycleStateError(`Only draft cycles can be activated; this cycle is ${REVIEW_CYCLE_STATUS_LABELS[cycle.status].toLowerCase()}`)
+  }
+
+  const { data: active, error } = await client
+    .from('review_cycles')
+    .select('name')
+    .eq('year', cycle.year)
+    .eq('status', 'active')
+  if (error) throw error
+  if (active.length > 0) {
+    throw new CycleStateError(`"${active[0].name}" is already active for ${cycle.year}. Close it before activating another cycle.`)
+  }
+
+  return setCycleStatus(client, cycle.id, 'active')
+}
+
+export async function closeReviewCycle(client: SupabaseClient, cycle: ReviewCycle) {
+  if (cycle.status !== 'active') {
+    throw new CycleStateError('Only active cycles can be closed')
+  }
+
+  const closed = await setCycleStatus(client, cycle.id, 'completed')
+  return { cycle: closed, unfinalized: await getUnfinalizedReviews(client, cycle.id) }
+}
+
+// Employees whose review in the cycle is missing or not finalized
+export async function getUnfinalizedReviews(client: SupabaseClient, cycleId: string): Promise<UnfinalizedReview[]> {
+  const [employeesResult, reviewsResult] = await Promise.all([
+    client.from('employees').select('id, name, department, manager_id').order('name'),
+    client.from('reviews').select('id, employee_id, status, reopened').eq('review_cycle_id', cycleId)
+  ])
+
+  if (employeesResult.error) throw employeesResult.error
+  if (reviewsResult.error) throw reviewsResult.error
+
+  const reviewsByEmployee = new Map<string, { id: string; status: ReviewStatus; reopened: boolean }>()
+  reviewsResult.data.forEach(review => reviewsByEmployee.set(review.employee_id, review))
+
+  return employeesResult.data
+    .map(employee => {
+      const review = reviewsByEmployee.get(employee.id)
+      return { employee, reviewId: review?.id ?? null, status: review?.status ?? null, reopened: review?.reopened ?? false }
+    })
+    .filter(entry => entry.status !== 'finalized')
+}
+
+export function isReviewLocked(cycle: Pick<ReviewCycle, 'status'>, review: Pick<Review, 'reopened'> | null) {
+  return cycle.status === 'completed' && !review?.reopened
+}
+
+export async function assertReviewEditable(client: SupabaseClient, reviewCycleId: string, review: Review | null) {
+  const cycle = await getReviewCycle(client, reviewCycleId)
+  if (!cycle) throw new CycleStateError('Review cycle not found')
+  if (isReviewLocked(cycle, review)) throw new ReviewLockedError()
+}
+
+// Admins can't update reviews directly; reopen_review() only sets the flag
+export async function reopenReview(client: SupabaseClient, reviewId: string): Promise<Review> {
+  const { data, error } = await client.rpc('reopen_review', { review_uuid: reviewId })
+
+  if (error) throw error
+  return data as Review
+}
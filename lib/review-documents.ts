@@ -0,0 +1,32 @@
+// Access to the documents stored with a review. The review-documents bucket is private, so
+// documents are only ever shared as short-lived signed URLs, and the storage policies only
+// sign them for the review's manager.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getReviewById } from './reviews'
+import { REVIEW_DOCUMENTS_BUCKET } from './uploads'
+
+// Long enough to open the document, short enough that a shared link soon stops working
+export const DOCUMENT_URL_EXPIRES_IN = 5 * 60
+
+export interface DocumentUrl {
+  url: string
+  expiresAt: string
+}
+
+// Signed URL for the review's 360 feedback PDF, or null when the review isn't visible to the
+// user or has no uploaded PDF
+export async function getFeedback360Url(client: SupabaseClient, reviewId: string): Promise<DocumentUrl | null> {
+  const review = await getReviewById(client, reviewId)
+  if (!review?.feedback_360_file_url) return null
+
+  const { data, error } = await client.storage
+    .from(REVIEW_DOCUMENTS_BUCKET)
+    .createSignedUrl(review.feedback_360_file_url, DOCUMENT_URL_EXPIRES_IN)
+
+  if (error) throw error
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + DOCUMENT_URL_EXPIRES_IN * 1000).toISOString()
+  }
+}
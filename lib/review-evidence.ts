@@ -0,0 +1,136 @@
+// Evidence linking each generated claim to the inputs it came from. The model cites a quote from a
+// source for every claim; quotes that can't be found in that source are dropped, and claims left
+// without a source are flagged as unsupported.
+
+import type { DataUsed } from './synthesis'
+import type { ReviewSection } from './review-sections'
+
+// The same keys as the synthesis dataUsed flags
+export type EvidenceSource = keyof DataUsed
+
+export const EVIDENCE_SOURCES: EvidenceSource[] = ['itpScores', 'feedback360', 'selfReview', 'managerComments']
+
+export const EVIDENCE_SOURCE_LABELS: Record<EvidenceSource, string> = {
+  itpScores: 'ITP scores',
+  feedback360: '360 feedback',
+  selfReview: 'Self review',
+  managerComments: 'Manager comments'
+}
+
+export interface EvidenceSnippet {
+  source: EvidenceSource
+  quote: string
+}
+
+export interface SectionClaim {
+  claim: string // a sentence (or list item) from the section
+  sources: EvidenceSnippet[] // empty when nothing in the inputs supports it
+}
+
+// Claims keyed by section key. Sections without an entry have no evidence, e.g. after a
+// single-section rewrite.
+export type ReviewEvidence = Record<string, SectionClaim[]>
+
+// The text of each input the model was given, for checking its quotes
+export type EvidenceSourceText = Partial<Record<EvidenceSource, string>>
+
+const MAX_CLAIMS_PER_SECTION = 15
+const MAX_SOURCES_PER_CLAIM = 4
+// Shorter sentences (e.g. list numbers) are too ambiguous to match against claims
+const MIN_MATCH_LENGTH = 12
+
+export function evidenceJSONTemplate() {
+  return `  "evidence": { "<section key>": [{ "claim": "<one sentence copied exactly from that section>", "sources": [{ "source": "${EVIDENCE_SOURCES.join('|')}", "quote": "<short excerpt copied exactly from that data source>" }] }] }`
+}
+
+export const EVIDENCE_INSTRUCTION = `"evidence" must list every sentence of every section as a claim, citing the data sources that support it by their [source] tag with a quote copied word for word. Use an empty "sources" list for a claim the data does not support.`
+
+function isEvidenceSource(value: unknown): value is EvidenceSource {
+  return typeof value === 'string' && (EVIDENCE_SOURCES as string[]).includes(value)
+}
+
+// Evidence supplements the review, so malformed entries are dropped rather than failing the review
+export function parseEvidence(raw: unknown, sections: ReviewSection[]): ReviewEvidence {
+  const evidence: ReviewEvidence = {}
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return evidence
+
+  sections.forEach(section => {
+    const claims = (raw as Record<string, unknown>)[section.key]
+    if (!Array.isArray(claims)) return
+    evidence[section.key] = claims
+      .filter(item => typeof item?.claim === 'string' && item.claim.trim())
+      .slice(0, MAX_CLAIMS_PER_SECTION)
+      .map(item => ({
+        claim: item.claim.trim(),
+        sources: (Array.isArray(item.sources) ? item.sources : [])
+          .filter((s: any) => isEvidenceSource(s?.source) && typeof s.quote === 'string' && s.quote.trim())
+          .slice(0, MAX_SOURCES_PER_CLAIM)
+          .map((s: any) => ({ source: s.source, quote: s.quote.trim() }))
+      }))
+  })
+  return evidence
+}
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'.,;:!?-]+|[\s"'.,;:!?-]+$/g, '')
+}
+
+// Quotes may elide text with "..."; every remaining part has to appear in the source
+function quoteAppearsIn(quote: string, sourceText: string) {
+  const source = normalize(sourceText)
+  const parts = quote.split(/\.\.\.|…/).map(normalize).filter(Boolean)
+  return parts.length > 0 && parts.every(part => source.includes(part))
+}
+
+// Drops citations of inputs the model wasn't given and quotes that don't appear in their source
+export function groundEvidence(evidence: ReviewEvidence, sourceText: EvidenceSourceText): ReviewEvidence {
+  const grounded: ReviewEvidence = {}
+  Object.keys(evidence).forEach(key => {
+    grounded[key] = evidence[key].map(claim => ({
+      claim: claim.claim,
+      sources: claim.sources.filter(s => {
+        const text = sourceText[s.source]
+        return !!text && quoteAppearsIn(s.quote, text)
+      })
+    }))
+  })
+  return grounded
+}
+
+export function isSupported(claim: SectionClaim) {
+  return claim.sources.length > 0
+}
+
+// Splits text into sentences, keeping every character so the pieces can be rendered back as the
+// original text. Numbered list items stay whole.
+export function splitSentences(text: string): string[] {
+  const pieces: string[] = []
+  const lines = text.match(/[^\n]*\n?/g) || []
+  lines.forEach(line => {
+    if (/^\s*\d+[.)]\s/.test(line)) pieces.push(line)
+    else pieces.push(...(line.match(/[^.!?\n]*(?:[.!?]+["')\]]*[ \t]*|\n|$)/g) || []))
+  })
+  return pieces.filter(Boolean)
+}
+
+// The claim for a sentence of the current text, if the sentence is still the one the claim quotes
+export function findClaim(sentence: string, claims: SectionClaim[]): SectionClaim | null {
+  const target = normalize(sentence.replace(/^\d+[.)]\s+/, ''))
+  if (target.length < MIN_MATCH_LENGTH) return null
+  return claims.find(claim => {
+    const normalized = normalize(claim.claim.replace(/^\d+[.)]\s+/, ''))
+    return normalized.length >= MIN_MATCH_LENGTH && (target.includes(normalized) || normalized.includes(target))
+  }) ?? null
+}
+
+// Unsupported claims that still appear in the section text
+export function unsupportedClaims(text: string, claims: SectionClaim[]) {
+  return splitSentences(text)
+    .map(sentence => findClaim(sentence, claims))
+    .filter((claim): claim is SectionClaim => !!claim && !isSupported(claim))
+}
@@ -0,0 +1,88 @@
+// Review audit trail stored in the review_history table
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Review, ReviewHistory } from './supabase'
+import { DiffPart, diffWords } from './text-diff'
+
+export type ReviewChangeType = 'created' | 'generated' | 'regenerated' | 'edited' | 'reverted' | 'acknowledged' | 'finalized' | 'reopened' |
+  'employee_responded' | 'employee_acknowledged'
+
+// Section text keyed by template section key
+export type SectionSnapshot = Record<string, string>
+
+export interface FieldChange {
+  before: string | null
+  after: string | null
+  aiDraft: string | null
+  diffFromDraft: DiffPart[]
+}
+
+export interface ReviewHistoryChanges {
+  fields: Record<string, FieldChange>
+  // Section text as it stood after this change; reverting restores it
+  snapshot: SectionSnapshot
+  revertedFrom?: string
+  // Bias and tone findings the manager acknowledged (change type 'acknowledged')
+  acknowledgedFindings?: { id: string; message: string; text: string }[]
+  // The employee's written response to the finalized review (change type 'employee_responded')
+  employeeResponse?: string
+}
+
+export interface ReviewHistoryEntry extends Omit<ReviewHistory, 'changes'> {
+  changes: ReviewHistoryChanges | null
+}
+
+export function currentSnapshot(review: Review): SectionSnapshot {
+  return { ...review.generated_sections, ...review.final_sections }
+}
+
+// Section-level changes between the review's current text and the new final_sections values,
+// each with a diff against the AI draft. Returns null when nothing actually changed.
+export function buildSectionChanges(
+  review: Review,
+  updates: SectionSnapshot
+): ReviewHistoryChanges | null {
+  const before = currentSnapshot(review)
+  const fields: ReviewHistoryChanges['fields'] = {}
+
+  Object.keys(updates).forEach(key => {
+    const after = updates[key]
+    if (after === before[key]) return
+
+    const aiDraft = review.generated_sections[key] ?? null
+    fields[key] = {
+      before: before[key] ?? null,
+      after,
+      aiDraft,
+      diffFromDraft: diffWords(aiDraft || '', after || '')
+    }
+  })
+
+  if (Object.keys(fields).length === 0) return null
+  return { fields, snapshot: { ...before, ...updates } }
+}
+
+export async function recordReviewHistory(
+  client: SupabaseClient,
+  reviewId: string,
+  changedBy: string,
+  changeType: ReviewChangeType,
+  changes: ReviewHistoryChanges
+) {
+  const { error } = await client
+    .from('review_history')
+    .insert({ review_id: reviewId, changed_by: changedBy, change_type: changeType, changes })
+
+  if (error) throw error
+}
+
+export async function getReviewHistory(client: SupabaseClient, reviewId: string): Promise<ReviewHistoryEntry[]> {
+  const { data, error } = await client
+    .from('review_history')
+    .select('*')
+    .eq('review_id', reviewId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data as ReviewHistoryEntry[]
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { applySuggestion, lintReview, unacknowledgedFindings } from './review-lint'
+import { STANDARD_SECTIONS } from './review-sections'
+
+function lint(text: Record<string, string>) {
+  return lintReview(text, STANDARD_SECTIONS)
+}
+
+describe('lintReview', () => {
+  it('flags wording by rule and severity', () => {
+    const findings = lint({ strengths: 'She is a young rock star and always delivers.' })
+    expect(findings.map(f => [f.rule, f.severity, f.text])).toEqual([
+      ['age_family', 'high', 'young'],
+      ['vague_praise', 'low', 'rock star'],
+      ['absolute', 'medium', 'always']
+    ])
+  })
+
+  it('accepts praise the evidence supports', () => {
+    const text = { strengths: 'She is a team player who ran the migration.' }
+    const evidence = { strengths: [{ claim: 'She is a team player who ran the migration.', sources: [{ source: 'managerComments' as const, quote: 'ran the migration' }] }] }
+    expect(lintReview(text, STANDARD_SECTIONS, evidence).filter(f => f.rule === 'vague_praise')).toEqual([])
+  })
+
+  it('flags development feedback much longer or harsher than the strengths', () => {
+    const findings = lint({
+      strengths: 'Good work.',
+      developmentFeedback: 'The work was poor and weak, and she failed to meet deadlines, which was disappointing for the team this year.'
+    })
+    expect(findings.filter(f => f.rule === 'tone_imbalance').map(f => f.id))
+      .toEqual(['developmentFeedback:tone_imbalance:longer', 'developmentFeedback:tone_imbalance:harsh'])
+  })
+
+  it('gives each occurrence its own id', () => {
+    const ids = lint({ strengths: 'He is young. She is young and young at heart.' }).map(f => f.id)
+    expect(new Set(ids).size).toBe(3)
+  })
+
+  it('keeps ids when other sentences change', () => {
+    const before = lint({ strengths: 'Shipped the API. He is young.' })[0].id
+    const after = lint({ strengths: 'Shipped the API on time. He is young.' })[0].id
+    expect(after).toBe(before)
+  })
+})
+
+describe('unacknowledgedFindings', () => {
+  it('blocks on high-severity findings until they are acknowledged', () => {
+    const findings = lint({ strengths: 'He is young and always on time.' })
+    expect(unacknowledgedFindings(findings, []).map(f => f.text)).toEqual(['young'])
+    expect(unacknowledgedFindings(findings, [findings[0].id])).toEqual([])
+  })
+
+  it('does not carry an acknowledgement over to a new use of the same word', () => {
+    const acknowledged = lint({ strengths: 'He is young.' }).map(f => f.id)
+    const findings = lint({ strengths: 'He is young. The team is young too.' })
+    expect(unacknowledgedFindings(findings, acknowledged).map(f => f.index)).toEqual([25])
+  })
+})
+
+describe('applySuggestion', () => {
+  it('swaps in the replacement, matching case', () => {
+    const text = 'Always on time.'
+    const [finding] = lint({ strengths: text })
+    expect(applySuggestion(text, finding)).toBe('Consistently on time.')
+  })
+})
@@ -0,0 +1,219 @@
+// Bias and tone checks for review text. Rule-based so the editor can re-check the text on every
+// keystroke and finalization can enforce the same findings on the server.
+
+import type { ReviewSection, ReviewSectionText } from './review-sections'
+import { findClaim, isSupported, splitSentences, ReviewEvidence } from './review-evidence'
+
+export type FindingSeverity = 'high' | 'medium' | 'low'
+
+export type LintRule = 'gendered' | 'personality' | 'vague_praise' | 'age_family' | 'absolute' | 'tone_imbalance'
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  gendered: 'Gendered language',
+  personality: 'Personality-based',
+  vague_praise: 'Vague praise',
+  age_family: 'Age or family reference',
+  absolute: 'Absolute language',
+  tone_imbalance: 'Tone imbalance'
+}
+
+export const FINDING_SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+}
+
+export interface LintFinding {
+  // Names the flagged occurrence by its sentence, so acknowledgements survive edits to other
+  // sentences but not new uses of the same words
+  id: string
+  sectionKey: string
+  rule: LintRule
+  severity: FindingSeverity
+  text: string // the flagged words; empty for section-level findings
+  index: number // offset of text in the section, -1 for section-level findings
+  message: string
+  suggestion: string
+  replacement: string | null // drop-in rewrite for text, when one exists
+}
+
+interface PhraseRule {
+  rule: LintRule
+  severity: FindingSeverity
+  pattern: RegExp
+  message: string
+  suggestion: string
+  replacements?: Record<string, string>
+}
+
+const PHRASE_RULES: PhraseRule[] = [
+  {
+    rule: 'gendered',
+    severity: 'high',
+    pattern: /\b(bossy|shrill|hysterical|feisty|ditzy|catty|ladylike|motherly|fatherly|maternal|manpower|man-hours|chairman|guys|girls?)\b/gi,
+    message: 'Gendered wording',
+    suggestion: 'Use neutral wording and describe the specific behaviour and its impact.',
+    replacements: { manpower: 'staffing', 'man-hours': 'person-hours', chairman: 'chair', guys: 'everyone' }
+  },
+  {
+    rule: 'age_family',
+    severity: 'high',
+    pattern: /\b(young|youthful|elderly|older (?:employee|worker|colleague)|digital native|(?:nearing|close to) retirement|at (?:his|her|their) age|pregnan\w*|maternity|paternity|childcare|kids|children|family (?:commitments|obligations|responsibilities)|married|single (?:mom|mother|dad|father)|(?:mother|father) of)\b/gi,
+    message: 'Reference to age or family status',
+    suggestion: 'Remove it. Age and family status are not performance criteria and create legal risk.'
+  },
+  {
+    rule: 'personality',
+    severity: 'medium',
+    pattern: /\b(abrasive|aggressive|emotional|moody|pushy|arrogant|lazy|temperamental|dramatic|introverted|too quiet|bad attitude|attitude problem|not a people person)\b/gi,
+    message: 'Describes personality rather than behaviour',
+    suggestion: 'Describe what the employee did, when, and its effect on the work or team.'
+  },
+  {
+    rule: 'absolute',
+    severity: 'medium',
+    pattern: /\b(always|never|constantly|every time|all the time)\b/gi,
+    message: 'Absolute language overstates the behaviour',
+    suggestion: 'Use a measured frequency and a specific example.',
+    replacements: { always: 'consistently', never: 'rarely', constantly: 'frequently', 'every time': 'often', 'all the time': 'often' }
+  },
+  {
+    rule: 'vague_praise',
+    severity: 'low',
+    pattern: /\b(great job|good job|team player|hard[- ]worker|hard[- ]working|rock ?star|amazing|awesome|great attitude|pleasure to work with|goes above and beyond)\b/gi,
+    message: 'Praise without supporting evidence',
+    suggestion: 'Name the work or outcome that earned the praise.'
+  }
+]
+
+const HARSH_WORDS = /\b(fail(?:s|ed)?|poor(?:ly)?|weak|lacks?|lacking|unable|incompetent|unacceptable|terrible|disappointing)\b/gi
+const MAX_HARSH_WORDS = 3
+// Development feedback longer than this multiple of the strengths reads as unbalanced, and vice versa
+const MAX_LENGTH_RATIO = 2.5
+
+function matchCase(original: string, replacement: string) {
+  return original[0] === original[0].toUpperCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement
+}
+
+function wordCount(text: string) {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+// The sentence containing the offset and where it starts, to tell whether a match is in a
+// sentence with evidence and which occurrence in the sentence it is
+function sentenceAt(text: string, index: number) {
+  let offset = 0
+  for (const sentence of splitSentences(text)) {
+    if (index < offset + sentence.length) return { sentence, offset }
+    offset += sentence.length
+  }
+  return { sentence: '', offset }
+}
+
+// Short hash of a sentence (FNV-1a) for finding ids; runs the same in the browser and on the server
+function sentenceHash(sentence: string) {
+  let hash = 0x811c9dc5
+  const normalized = sentence.trim().toLowerCase().replace(/\s+/g, ' ')
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+// e.g. "summary:absolute:always:1x8k2c:0" for the first "always" in that sentence
+function phraseFindingId(sectionKey: string, rule: LintRule, text: string, match: RegExpExecArray) {
+  const { sentence, offset } = sentenceAt(text, match.index)
+  const matched = match[0].toLowerCase()
+  const before = sentence.slice(0, match.index - offset).toLowerCase()
+  const occurrence = before.split(matched).length - 1
+  return `${sectionKey}:${rule}:${matched}:${sentenceHash(sentence)}:${occurrence}`
+}
+
+function lintPhrases(sectionKey: string, text: string, evidence: ReviewEvidence): LintFinding[] {
+  const findings: LintFinding[] = []
+  PHRASE_RULES.forEach(rule => {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text))) {
+      const matched = match[0]
+      // Praise is fine where the inputs back it up
+      if (rule.rule === 'vague_praise') {
+        const claim = findClaim(sentenceAt(text, match.index).sentence, evidence[sectionKey] || [])
+        if (claim && isSupported(claim)) continue
+      }
+      const replacement = rule.replacements?.[matched.toLowerCase()]
+      findings.push({
+        id: phraseFindingId(sectionKey, rule.rule, text, match),
+        sectionKey,
+        rule: rule.rule,
+        severity: rule.severity,
+        text: matched,
+        index: match.index,
+        message: rule.message,
+        suggestion: replacement ? `${rule.suggestion} For example "${matchCase(matched, replacement)}".` : rule.suggestion,
+        replacement: replacement ? matchCase(matched, replacement) : null
+      })
+    }
+  })
+  return findings.sort((a, b) => a.index - b.index)
+}
+
+function sectionFinding(sectionKey: string, kind: string, message: string, suggestion: string): LintFinding {
+  return {
+    id: `${sectionKey}:tone_imbalance:${kind}`,
+    sectionKey,
+    rule: 'tone_imbalance',
+    severity: 'medium',
+    text: '',
+    index: -1,
+    message,
+    suggestion,
+    replacement: null
+  }
+}
+
+// Compares the template's strengths and development sections, when it has both
+function lintTone(text: ReviewSectionText, sections: ReviewSection[]): LintFinding[] {
+  const strengths = sections.find(s => /strength/i.test(`${s.key} ${s.title}`))
+  const development = sections.find(s => /develop|improve/i.test(`${s.key} ${s.title}`))
+  if (!strengths || !development) return []
+
+  const findings: LintFinding[] = []
+  const strengthWords = wordCount(text[strengths.key] || '')
+  const developmentWords = wordCount(text[development.key] || '')
+  if (strengthWords > 0 && developmentWords > strengthWords * MAX_LENGTH_RATIO) {
+    findings.push(sectionFinding(development.key, 'longer',
+      `${development.title} is much longer than ${strengths.title}`,
+      `Balance the review: trim the criticism to the most important points or expand on the strengths.`))
+  } else if (developmentWords > 0 && strengthWords > developmentWords * MAX_LENGTH_RATIO) {
+    findings.push(sectionFinding(strengths.key, 'longer',
+      `${strengths.title} is much longer than ${development.title}`,
+      'Make sure the development feedback gives the employee enough to act on.'))
+  }
+
+  const harsh = (text[development.key] || '').match(HARSH_WORDS) || []
+  if (harsh.length >= MAX_HARSH_WORDS) {
+    findings.push(sectionFinding(development.key, 'harsh',
+      `Harsh wording (${harsh.slice(0, 3).map(w => `"${w}"`).join(', ')})`,
+      'Frame development areas as specific, observable behaviour with a clear path to improve.'))
+  }
+  return findings
+}
+
+export function lintReview(text: ReviewSectionText, sections: ReviewSection[], evidence: ReviewEvidence = {}): LintFinding[] {
+  return [
+    ...sections.reduce<LintFinding[]>((all, s) => all.concat(lintPhrases(s.key, text[s.key] || '', evidence)), []),
+    ...lintTone(text, sections)
+  ]
+}
+
+// High-severity findings block finalization until they are acknowledged
+export function unacknowledgedFindings(findings: LintFinding[], acknowledged: string[]) {
+  return findings.filter(f => f.severity === 'high' && !acknowledged.includes(f.id))
+}
+
+export function applySuggestion(text: string, finding: LintFinding) {
+  if (finding.replacement === null || finding.index < 0) return text
+  return text.slice(0, finding.index) + finding.replacement + text.slice(finding.index + finding.text.length)
+}
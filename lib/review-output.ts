@@ -0,0 +1,201 @@
+// Schema for the review JSON returned by the model, with validation and repair prompts.
+// The expected keys come from the review template's sections, plus progress on the previous
+// review's goals when there are any.
+
+import { ReviewSection, ReviewSectionRatings, ReviewSectionText } from './review-sections'
+import { extractPartialStrings } from './partial-json'
+import { evidenceJSONTemplate, parseEvidence, EVIDENCE_INSTRUCTION, ReviewEvidence } from './review-evidence'
+import { goalProgressJSONTemplate, validateGoalProgress, GoalProgress, PriorGoal, GOAL_PROGRESS_INSTRUCTION } from './goal-progress'
+
+// Attempts after the first response before giving up on invalid output
+export const MAX_REPAIR_ATTEMPTS = 2
+
+const MIN_LIST_ITEMS = 1
+const MAX_LIST_ITEMS = 8
+
+export interface ReviewListItem {
+  title: string
+  description: string
+}
+
+export interface ReviewContent {
+  // Text for paragraph sections, items for numbered list sections
+  sections: Record<string, string | ReviewListItem[]>
+  ratings: ReviewSectionRatings
+  evidence: ReviewEvidence
+  // One entry per goal from the previous review; empty without one
+  goalProgress: GoalProgress[]
+}
+
+// Raised when the model still returns invalid output after every repair attempt
+export class ReviewOutputError extends Error {
+  code = 'invalid_model_output' as const
+  errors: string[]
+  attempts: number
+
+  constructor(errors: string[], attempts: number) {
+    super(`The AI returned an invalid review after ${attempts} attempt${attempts === 1 ? '' : 's'}`)
+    this.name = 'ReviewOutputError'
+    this.errors = errors
+    this.attempts = attempts
+  }
+}
+
+function sectionGuidance(section: ReviewSection) {
+  return [section.instructions || section.title, section.length].filter(Boolean).join(' - ')
+}
+
+function ratingGuidance(section: ReviewSection) {
+  const scale = section.ratingScale!
+  const labels = scale.labels.length > 0
+    ? ` (${scale.labels.map((label, i) => `${scale.min + i} = ${label}`).join(', ')})`
+    : ''
+  return `<whole number from ${scale.min} to ${scale.max}${labels}>`
+}
+
+export function reviewJSONTemplate(sections: ReviewSection[], priorGoals: PriorGoal[] = []) {
+  const lines = sections.map(s => s.format === 'numbered_list'
+    ? `  "${s.key}": [{ "title": "<short title>", "description": "<brief description>" }]`
+    : `  "${s.key}": "${sectionGuidance(s)}"`)
+
+  const rated = sections.filter(s => s.ratingScale)
+  if (rated.length > 0) {
+    lines.push(`  "ratings": { ${rated.map(s => `"${s.key}": ${ratingGuidance(s)}`).join(', ')} }`)
+  }
+  lines.push(evidenceJSONTemplate())
+  if (priorGoals.length > 0) lines.push(goalProgressJSONTemplate())
+
+  const lists = sections.filter(s => s.format === 'numbered_list')
+    .map(s => ` "${s.key}" must be a list (${sectionGuidance(s)}), each item with a non-empty "title" and "description".`)
+
+  return `{
+${lines.join(',\n')}
+}
+
+All keys are required. Text values must be non-empty strings.${lists.join('')}${rated.length > 0 ? ' "ratings" must give a whole number within each scale.' : ''} ${EVIDENCE_INSTRUCTION}${priorGoals.length > 0 ? ` ${GOAL_PROGRESS_INSTRUCTION}` : ''}`
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+export function validateReviewContent(
+  raw: unknown,
+  sections: ReviewSection[],
+  priorGoals: PriorGoal[] = []
+): { content: ReviewContent | null; errors: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { content: null, errors: ['Response must be a JSON object'] }
+  }
+
+  const data = raw as Record<string, any>
+  const errors: string[] = []
+  const content: ReviewContent = { sections: {}, ratings: {}, evidence: {}, goalProgress: [] }
+
+  sections.forEach(s => {
+    const value = data[s.key]
+    if (s.format === 'paragraphs') {
+      if (!nonEmptyString(value)) errors.push(`"${s.key}" must be a non-empty string`)
+      else content.sections[s.key] = value.trim()
+      return
+    }
+
+    if (!Array.isArray(value)) {
+      errors.push(`"${s.key}" must be a list`)
+      return
+    }
+    if (value.length < MIN_LIST_ITEMS || value.length > MAX_LIST_ITEMS) {
+      errors.push(`"${s.key}" must have between ${MIN_LIST_ITEMS} and ${MAX_LIST_ITEMS} items`)
+    }
+    value.forEach((item, index) => {
+      if (!nonEmptyString(item?.title)) errors.push(`"${s.key}" item ${index + 1} needs a non-empty "title"`)
+      if (!nonEmptyString(item?.description)) errors.push(`"${s.key}" item ${index + 1} needs a non-empty "description"`)
+    })
+    content.sections[s.key] = value.map(item => ({ title: String(item?.title ?? '').trim(), description: String(item?.description ?? '').trim() }))
+  })
+
+  sections.filter(s => s.ratingScale).forEach(s => {
+    const { min, max } = s.ratingScale!
+    const rating = data.ratings?.[s.key]
+    if (!Number.isInteger(rating) || rating < min || rating > max) {
+      errors.push(`"ratings.${s.key}" must be a whole number from ${min} to ${max}`)
+    } else {
+      content.ratings[s.key] = rating
+    }
+  })
+
+  if (!data.evidence || typeof data.evidence !== 'object' || Array.isArray(data.evidence)) {
+    errors.push('"evidence" must be an object keyed by section')
+  } else {
+    content.evidence = parseEvidence(data.evidence, sections)
+  }
+
+  if (priorGoals.length > 0) {
+    const goals = validateGoalProgress(data.goalProgress, priorGoals)
+    errors.push(...goals.errors)
+    content.goalProgress = goals.progress
+  }
+
+  if (errors.length > 0) return { content: null, errors }
+  return { content, errors: [] }
+}
+
+export function parseReviewContent(text: string, sections: ReviewSection[], priorGoals: PriorGoal[] = []) {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { content: null, errors: ['Response is not valid JSON'] }
+  }
+  return validateReviewContent(raw, sections, priorGoals)
+}
+
+export function buildRepairPrompt(originalPrompt: string, previousOutput: string, errors: string[]) {
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${errors.map(e => `- ${e}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${previousOutput.substring(0, 6000)}
+
+Return the corrected review as ONLY a valid JSON object with the structure described above.`
+}
+
+export function formatListItems(items: ReviewListItem[]) {
+  return items.map((item, index) => `${index + 1}. ${item.title}${item.description ? `: ${item.description}` : ''}`).join('\n')
+}
+
+export function toSectionText(content: ReviewContent): ReviewSectionText {
+  const text: ReviewSectionText = {}
+  Object.keys(content.sections).forEach(key => {
+    const value = content.sections[key]
+    text[key] = typeof value === 'string' ? value : formatListItems(value)
+  })
+  return text
+}
+
+// Section text from a response that is still streaming, for progress display
+export function extractPartialReview(text: string, sections: ReviewSection[]): Partial<ReviewSectionText> {
+  const partial: Partial<ReviewSectionText> = extractPartialStrings(
+    text,
+    sections.filter(s => s.format === 'paragraphs').map(s => s.key)
+  )
+
+  sections.filter(s => s.format === 'numbered_list').forEach(s => {
+    const listStart = new RegExp(`"${s.key}"\\s*:\\s*\\[`).exec(text)
+    if (!listStart) return
+    // The list ends at the next top-level key, if one has started streaming
+    const rest = text.substring(listStart.index + listStart[0].length)
+    const listText = rest.split(/\]\s*,\s*"/)[0]
+    const items = listText
+      .split('{')
+      .slice(1)
+      .map(part => extractPartialStrings(part, ['title', 'description']))
+      .filter(item => item.title)
+      .map(item => ({ title: item.title!, description: item.description || '' }))
+    partial[s.key] = formatListItems(items)
+  })
+
+  return partial
+}
@@ -0,0 +1,96 @@
+// Review sections as defined by a review template, and the section text stored on reviews
+
+import type { Review } from './supabase'
+
+// Paragraph sections are free text; numbered lists are generated as titled items (e.g. goals)
+export type SectionFormat = 'paragraphs' | 'numbered_list'
+
+export const SECTION_FORMAT_LABELS: Record<SectionFormat, string> = {
+  paragraphs: 'Paragraphs',
+  numbered_list: 'Numbered list'
+}
+
+export interface RatingScale {
+  min: number
+  max: number
+  // Optional label per value from min to max, e.g. "Meets expectations"
+  labels: string[]
+}
+
+export interface ReviewSection {
+  key: string
+  title: string
+  instructions: string // what the model should write for this section
+  length: string // length guidance, e.g. "2-3 paragraphs" or "4-5 goals"
+  format: SectionFormat
+  ratingScale: RatingScale | null
+}
+
+// Section text keyed by ReviewSection.key
+export type ReviewSectionText = Record<string, string>
+
+// Section ratings keyed by ReviewSection.key, for sections with a rating scale
+export type ReviewSectionRatings = Record<string, number>
+
+// The sections of the built-in standard template
+export const STANDARD_SECTIONS: ReviewSection[] = [
+  {
+    key: 'strengths',
+    title: 'Greatest Strengths',
+    instructions: "The employee's greatest strengths based on the data provided",
+    length: '2-3 paragraphs',
+    format: 'paragraphs',
+    ratingScale: null
+  },
+  {
+    key: 'developmentFeedback',
+    title: 'Development Feedback',
+    instructions: 'Areas for development and constructive feedback',
+    length: '2-3 paragraphs',
+    format: 'paragraphs',
+    ratingScale: null
+  },
+  {
+    key: 'goalsNextYear',
+    title: 'Goals for Next Year',
+    instructions: 'Goals for the next year, each with a short title and a brief description',
+    length: '4-5 goals',
+    format: 'numbered_list',
+    ratingScale: null
+  },
+  {
+    key: 'overallAssessment',
+    title: 'Overall Assessment',
+    instructions: 'An overall assessment summary including data confidence level',
+    length: '1-2 paragraphs',
+    format: 'paragraphs',
+    ratingScale: null
+  }
+]
+
+export function getReviewSection(sections: ReviewSection[], key: string) {
+  return sections.find(section => section.key === key) ?? null
+}
+
+export function ratingLabel(scale: RatingScale, value: number) {
+  return scale.labels[value - scale.min] || ''
+}
+
+type SectionColumns = Partial<Pick<Review, 'generated_sections' | 'final_sections'>>
+
+export function generatedSections(review: SectionColumns, sections: ReviewSection[]): ReviewSectionText {
+  const text: ReviewSectionText = {}
+  sections.forEach(s => { text[s.key] = review.generated_sections?.[s.key] || '' })
+  return text
+}
+
+// Manager edits win; sections that were never edited fall back to the AI draft
+export function currentSections(review: SectionColumns, sections: ReviewSection[]): ReviewSectionText {
+  const text: ReviewSectionText = {}
+  sections.forEach(s => { text[s.key] = review.final_sections?.[s.key] ?? review.generated_sections?.[s.key] ?? '' })
+  return text
+}
+
+export function hasGeneratedSections(review: SectionColumns) {
+  return Object.keys(review.generated_sections || {}).length > 0
+}
@@ -0,0 +1,213 @@
+// Review templates: named, versioned sets of sections that drive generation, editing and export
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ReviewTemplate, ReviewTemplateVersion } from './supabase'
+import { RatingScale, ReviewSection, SectionFormat, SECTION_FORMAT_LABELS, STANDARD_SECTIONS } from './review-sections'
+
+// The template version a review is (or will be) generated with
+export interface ResolvedTemplate {
+  templateId: string | null
+  versionId: string | null // null for the built-in standard template
+  name: string
+  version: number
+  sections: ReviewSection[]
+}
+
+export interface ReviewTemplateSummary extends ReviewTemplate {
+  latest: ReviewTemplateVersion
+}
+
+export interface ReviewTemplateInput {
+  name: string
+  description: string | null
+  sections: ReviewSection[]
+}
+
+// Used when no template has been stored yet, and for reviews generated before templates existed
+export const STANDARD_TEMPLATE: ResolvedTemplate = {
+  templateId: null,
+  versionId: null,
+  name: 'Standard review',
+  version: 1,
+  sections: STANDARD_SECTIONS
+}
+
+const MAX_SECTIONS = 12
+const SECTION_KEY_PATTERN = /^[a-z][a-zA-Z0-9]*$/
+// Keys the review JSON uses for other purposes
+const RESERVED_KEYS = ['ratings', 'evidence', 'goalProgress']
+
+// A section key derived from its title, e.g. "Team Impact" -> "teamImpact"
+export function sectionKeyFromTitle(title: string) {
+  const words = title.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').split(' ').filter(Boolean)
+  const key = words.map((word, i) => i === 0 ? word : word[0].toUpperCase() + word.slice(1)).join('')
+  return /^[a-z]/.test(key) ? key : `section${key}`
+}
+
+function validateRatingScale(raw: any, label: string, errors: string[]): RatingScale | null {
+  if (raw == null) return null
+  const min = Number(raw.min)
+  const max = Number(raw.max)
+  if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max <= min || max - min > 9) {
+    errors.push(`${label}: rating scale must run between two whole numbers, with at most 10 values`)
+    return null
+  }
+  const labels = Array.isArray(raw.labels) ? raw.labels.map((l: unknown) => String(l ?? '').trim()) : []
+  if (labels.some(Boolean) && labels.length !== max - min + 1) {
+    errors.push(`${label}: give a label for every rating value or none`)
+  }
+  return { min, max, labels: labels.some(Boolean) ? labels : [] }
+}
+
+export function validateTemplateInput(body: any): { input: ReviewTemplateInput | null; errors: string[] } {
+  const errors: string[] = []
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  if (!name) errors.push('Name is required')
+
+  const rawSections: any[] = Array.isArray(body?.sections) ? body.sections : []
+  if (rawSections.length === 0) errors.push('Add at least one section')
+  if (rawSections.length > MAX_SECTIONS) errors.push(`A template can have at most ${MAX_SECTIONS} sections`)
+
+  const keys = new Set<string>()
+  const sections = rawSections.map((raw, index): ReviewSection => {
+    const title = typeof raw?.title === 'string' ? raw.title.trim() : ''
+    const label = title || `Section ${index + 1}`
+    const key = typeof raw?.key === 'string' && raw.key ? raw.key : sectionKeyFromTitle(title)
+    const format: SectionFormat = raw?.format in SECTION_FORMAT_LABELS ? raw.format : 'paragraphs'
+
+    if (!title) errors.push(`Section ${index + 1}: title is required`)
+    if (!SECTION_KEY_PATTERN.test(key) || RESERVED_KEYS.includes(key)) errors.push(`${label}: "${key}" can't be used as a section key`)
+    if (keys.has(key)) errors.push(`${label}: another section already uses the key "${key}"`)
+    keys.add(key)
+
+    return {
+      key,
+      title,
+      instructions: typeof raw?.instructions === 'string' ? raw.instructions.trim() : '',
+      length: typeof raw?.length === 'string' ? raw.length.trim() : '',
+      format,
+      ratingScale: validateRatingScale(raw?.ratingScale, label, errors)
+    }
+  })
+
+  if (errors.length > 0) return { input: null, errors }
+  const description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null
+  return { input: { name, description, sections }, errors: [] }
+}
+
+// A template left without versions by an interrupted save can't be used, so it is skipped
+function withLatestVersion({ versions, ...template }: ReviewTemplate & { versions: ReviewTemplateVersion[] }): ReviewTemplateSummary | null {
+  const latest = versions.reduce<ReviewTemplateVersion | null>((a, b) => (!a || b.version > a.version ? b : a), null)
+  return latest ? { ...template, latest } : null
+}
+
+function toResolved(template: Pick<ReviewTemplate, 'id' | 'name'>, version: ReviewTemplateVersion): ResolvedTemplate {
+  return { templateId: template.id, versionId: version.id, name: template.name, version: version.version, sections: version.sections }
+}
+
+export async function getTemplates(client: SupabaseClient): Promise<ReviewTemplateSummary[]> {
+  const { data, error } = await client
+    .from('review_templates')
+    .select('*, versions:review_template_versions(*)')
+    .order('name')
+
+  if (error) throw error
+  return (data || []).map(withLatestVersion).filter((template): template is ReviewTemplateSummary => !!template)
+}
+
+async function getTemplate(client: SupabaseClient, templateId: string): Promise<ReviewTemplateSummary | null> {
+  const { data, error } = await client
+    .from('review_templates')
+    .select('*, versions:review_template_versions(*)')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? withLatestVersion(data) : null
+}
+
+async function getLatestVersion(client: SupabaseClient, templateId: string): Promise<ResolvedTemplate | null> {
+  const { data, error } = await client
+    .from('review_template_versions')
+    .select('*, template:review_templates(id, name)')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toResolved(data.template, data) : null
+}
+
+export async function getTemplateVersion(client: SupabaseClient, versionId: string): Promise<ResolvedTemplate | null> {
+  const { data, error } = await client
+    .from('review_template_versions')
+    .select('*, template:review_templates(id, name)')
+    .eq('id', versionId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toResolved(data.template, data) : null
+}
+
+// Picks the template for a generation: an explicitly requested template (latest version), then the
+// version the review was last generated with, then the default template, then the built-in one
+export async function resolveTemplate(
+  client: SupabaseClient,
+  options: { templateId?: string | null; versionId?: string | null }
+): Promise<ResolvedTemplate | null> {
+  if (options.templateId) return getLatestVersion(client, options.templateId)
+  if (options.versionId) return getTemplateVersion(client, options.versionId)
+
+  const { data, error } = await client
+    .from('review_templates')
+    .select('id')
+    .eq('is_default', true)
+    .maybeSingle()
+  if (error) throw error
+
+  return (data && await getLatestVersion(client, data.id)) || STANDARD_TEMPLATE
+}
+
+// The template a saved review's sections belong to
+export async function getReviewTemplate(client: SupabaseClient, review: { template_version_id: string | null }) {
+  if (!review.template_version_id) return STANDARD_TEMPLATE
+  return (await getTemplateVersion(client, review.template_version_id)) || STANDARD_TEMPLATE
+}
+
+// The template and its first version are written in one transaction by create_review_template()
+export async function createTemplate(client: SupabaseClient, input: ReviewTemplateInput): Promise<ReviewTemplateSummary> {
+  const { data: templateId, error } = await client.rpc('create_review_template', {
+    template_name: input.name,
+    template_description: input.description,
+    template_sections: input.sections
+  })
+
+  if (error) throw error
+  const template = await getTemplate(client, templateId)
+  if (!template) throw new Error('The new review template could not be read back')
+  return template
+}
+
+// Saves the new sections as the next version; reviews generated with earlier versions keep them
+export async function updateTemplate(
+  client: SupabaseClient,
+  templateId: string,
+  input: ReviewTemplateInput
+): Promise<ReviewTemplateSummary | null> {
+  const { data: updatedId, error } = await client.rpc('update_review_template', {
+    template_uuid: templateId,
+    template_name: input.name,
+    template_description: input.description,
+    template_sections: input.sections
+  })
+
+  if (error) throw error
+  return updatedId ? getTemplate(client, updatedId) : null
+}
+
+// Clearing the old default and setting the new one happen in one transaction
+export async function setDefaultTemplate(client: SupabaseClient, templateId: string) {
+  const { error } = await client.rpc('set_default_review_template', { template_uuid: templateId })
+  if (error) throw error
+}
@@ -0,0 +1,176 @@
+// Review persistence helpers shared by the API routes
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Review, ReviewStatus } from './supabase'
+import type { DataUsed } from './synthesis'
+import { ITPScoreInput, ITP_DIMENSIONS, isValidITPScore } from './itp'
+
+// Statuses in workflow order; a review only moves forward through them, except that changing a
+// finalized review's content takes it back to reviewed
+export const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'inputs_complete', 'generated', 'reviewed', 'finalized']
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  inputs_complete: 'Inputs complete',
+  generated: 'Generated',
+  reviewed: 'Reviewed',
+  finalized: 'Finalized'
+}
+
+// Columns written by the app; ids, ownership, status and timestamps are managed by saveReview,
+// and the finalized copy by the database
+export type ReviewFields = Partial<Omit<Review,
+  'id' | 'employee_id' | 'review_cycle_id' | 'manager_id' | 'status' | 'reopened' | 'created_at' | 'updated_at' |
+  'finalized_at' | 'finalized_sections' | 'finalized_ratings'>>
+
+export type ITPColumn = 'itp_self_humble' | 'itp_self_hungry' | 'itp_self_smart' |
+  'itp_manager_humble' | 'itp_manager_hungry' | 'itp_manager_smart'
+
+export const ITP_COLUMNS: ITPColumn[] = [
+  'itp_self_humble', 'itp_self_hungry', 'itp_self_smart',
+  'itp_manager_humble', 'itp_manager_hungry', 'itp_manager_smart'
+]
+
+export function advanceStatus(current: ReviewStatus | null, target: ReviewStatus): ReviewStatus {
+  if (!current) return target
+  return REVIEW_STATUSES.indexOf(target) > REVIEW_STATUSES.indexOf(current) ? target : current
+}
+
+// The one step back: changing the text or ratings of a finalized review changes what was finalized,
+// so it returns to reviewed and has to pass the finalize checks again
+export function statusAfterContentChange(current: ReviewStatus): ReviewStatus {
+  return current === 'finalized' ? 'reviewed' : current
+}
+
+// Both ITP assessments and manager comments are required; 360 feedback is optional
+export function hasCompleteInputs(review: ReviewFields) {
+  return ITP_COLUMNS.every(column => isValidITPScore(review[column])) &&
+    !!review.manager_comments?.trim()
+}
+
+// Which of the four synthesis inputs a saved review has, in the same shape as the synthesis dataUsed
+export function reviewInputSources(review: ReviewFields): DataUsed {
+  return {
+    itpScores: ITP_COLUMNS.some(column => review[column] != null),
+    feedback360: !!review.feedback_360_text,
+    selfReview: !!review.self_review_text,
+    managerComments: !!review.manager_comments?.trim()
+  }
+}
+
+export function itpScoresToColumns(self: ITPScoreInput, manager: ITPScoreInput): ReviewFields {
+  const fields: ReviewFields = {}
+  ITP_DIMENSIONS.forEach(d => {
+    fields[`itp_self_${d}`] = self[d] ?? null
+    fields[`itp_manager_${d}`] = manager[d] ?? null
+  })
+  return fields
+}
+
+export function columnsToITPScores(review: Review): { self: ITPScoreInput; manager: ITPScoreInput } {
+  const self: ITPScoreInput = {}
+  const manager: ITPScoreInput = {}
+  ITP_DIMENSIONS.forEach(d => {
+    const selfValue = review[`itp_self_${d}`]
+    const managerValue = review[`itp_manager_${d}`]
+    if (selfValue !== null) self[d] = selfValue
+    if (managerValue !== null) manager[d] = managerValue
+  })
+  return { self, manager }
+}
+
+export async function getReview(client: SupabaseClient, employeeId: string, reviewCycleId: string): Promise<Review | null> {
+  const { data, error } = await client
+    .from('reviews')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('review_cycle_id', reviewCycleId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Creates or updates the single review for an employee in a cycle (UNIQUE(employee_id, review_cycle_id)).
+// Without an explicit status, the review becomes draft or inputs_complete depending on its inputs.
+export async function saveReview(
+  client: SupabaseClient,
+  employeeId: string,
+  reviewCycleId: string,
+  fields: ReviewFields,
+  status?: ReviewStatus
+): Promise<Review> {
+  const existing = await getReview(client, employeeId, reviewCycleId)
+
+  let managerId = existing?.manager_id
+  if (!managerId) {
+    const { data: employee, error } = await client
+      .from('employees')
+      .select('manager_id')
+      .eq('id', employeeId)
+      .single()
+
+    if (error) throw error
+    managerId = employee.manager_id as string
+  }
+
+  const stageStatus = status ?? (hasCompleteInputs({ ...existing, ...fields }) ? 'inputs_complete' : 'draft')
+  // Regenerating replaces the finalized text, so the review has to be reviewed and finalized again
+  const nextStatus = existing?.status === 'finalized' && status === 'generated'
+    ? 'generated'
+    : advanceStatus(existing?.status ?? null, stageStatus)
+
+  const row = {
+    ...fields,
+    status: nextStatus,
+    // Finalizing again locks a review that was reopened after its cycle closed
+    ...(status === 'finalized' ? { reopened: false } : {})
+  }
+
+  // An existing review is updated by id rather than upserted: the database checks the cycle lock
+  // against the row an INSERT proposes, which never carries the reopened flag
+  const query = existing
+    ? client.from('reviews').update(row).eq('id', existing.id)
+    : client.from('reviews').insert({ employee_id: employeeId, review_cycle_id: reviewCycleId, manager_id: managerId, ...row })
+
+  const { data, error } = await query.select().single()
+
+  if (error) throw error
+  return data
+}
+
+export async function getReviewById(client: SupabaseClient, id: string): Promise<Review | null> {
+  const { data, error } = await client
+    .from('reviews')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateReviewById(client: SupabaseClient, id: string, fields: ReviewFields): Promise<Review> {
+  const { data, error } = await client
+    .from('reviews')
+    .update(fields)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Saves changes to a review's text or ratings, taking a finalized review back to reviewed
+export async function updateReviewContent(client: SupabaseClient, review: Review, fields: ReviewFields): Promise<Review> {
+  const { data, error } = await client
+    .from('reviews')
+    .update({ ...fields, status: statusAfterContentChange(review.status) })
+    .eq('id', review.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,39 @@
+// Self review text extraction (server-side). Employees send their self review as a Word
+// document, a plain text or Markdown file, or text pasted into the page.
+
+import mammoth from 'mammoth'
+import { DOCX_CONTENT_TYPE, UploadError, UploadedFile } from './uploads'
+
+// The self review goes into the prompt in full, so it is capped rather than summarized
+export const MAX_SELF_REVIEW_CHARS = 40000
+
+// Collapses the blank lines and trailing spaces left by document conversion
+export function normalizeSelfReviewText(text: string) {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export async function extractSelfReviewText(file: UploadedFile): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  let text: string
+
+  if (file.type === DOCX_CONTENT_TYPE) {
+    try {
+      const result = await mammoth.extractRawText({ buffer: Buffer.from(buffer) })
+      text = result.value
+    } catch (error) {
+      console.error('DOCX parsing failed:', error instanceof Error ? error.message : error)
+      throw new UploadError(`"${file.name}" could not be read. It may be corrupted or not a Word document.`)
+    }
+  } else {
+    text = new TextDecoder('utf-8').decode(buffer)
+  }
+
+  text = normalizeSelfReviewText(text)
+  if (!text) throw new UploadError(`"${file.name}" has no text in it`)
+  return text
+}
@@ -0,0 +1,47 @@
+// Server-sent events over fetch, used both for reading the Claude stream and for
+// streaming synthesis progress to the page
+
+export function formatSSE(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Calls onEvent for each complete event in the response body. Throwing from onEvent
+// cancels the stream and rejects with that error.
+export async function readSSE(response: Response, onEvent: (event: string, data: any) => void) {
+  if (!response.body) throw new Error('Response has no body to stream')
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary), onEvent)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+    if (buffer.trim()) dispatch(buffer, onEvent)
+  } catch (error) {
+    await reader.cancel().catch(() => {})
+    throw error
+  }
+}
+
+function dispatch(message: string, onEvent: (event: string, data: any) => void) {
+  let event = 'message'
+  const data: string[] = []
+  message.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim())
+  })
+  const payload = data.join('\n')
+  // OpenAI-compatible streams end with a non-JSON "[DONE]" marker
+  if (data.length > 0 && payload !== '[DONE]') onEvent(event, JSON.parse(payload))
+}
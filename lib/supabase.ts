@@ -1,9 +1,14 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import type { ReviewSection } from './review-sections'
+import type { ReviewEvidence } from './review-evidence'
+import type { GoalProgress } from './goal-progress'
+import type { Feedback360Analysis } from './feedback360-analysis'
+import { uploadContentType } from './uploads'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Browser client; shares the signed-in session with the server through auth cookies
+export function getBrowserSupabase() {
+  return createClientComponentClient()
+}
 
 // Database types
 export interface Employee {
@@ -11,21 +16,27 @@ export interface Employee {
   name: string
   email: string
   position: string
+  department: string | null
   manager_id: string
   created_at: string
   updated_at: string
 }
 
+export type ReviewCycleStatus = 'draft' | 'active' | 'completed'
+
 export interface ReviewCycle {
   id: string
   name: string
   year: number
   start_date: string
   end_date: string
-  status: 'draft' | 'active' | 'completed'
+  status: ReviewCycleStatus
+  created_by: string | null
   created_at: string
 }
 
+export type ReviewStatus = 'draft' | 'inputs_complete' | 'generated' | 'reviewed' | 'finalized'
+
 export interface Review {
   id: string
   employee_id: string
@@ -43,34 +54,95 @@ export interface Review {
   // Input documents
   feedback_360_file_url: string | null
   feedback_360_text: string | null
+  // 360 comments by rater group and question, grouped into themes
+  feedback_360_analysis: Feedback360Analysis | null
   self_review_text: string | null
   manager_comments: string | null
   
-  // Generated content
-  generated_strengths: string | null
-  generated_development: string | null
-  generated_goals: string | null
-  generated_overall: string | null
+  // Template the sections were generated with; null for the built-in standard template
+  template_version_id: string | null
+
+  // Generated content, keyed by template section
+  generated_sections: Record<string, string>
   
-  status: 'draft' | 'generated' | 'reviewed' | 'finalized'
+  // Final content (after manager edits); sections without an edit are absent
+  final_sections: Record<string, string>
+
+  // Ratings for template sections that have a rating scale
+  section_ratings: Record<string, number>
+
+  // Input evidence for each generated claim, keyed by template section
+  section_evidence: ReviewEvidence
+
+  // Ids of high-severity bias and tone findings the manager acknowledged
+  acknowledged_findings: string[]
+
+  // Previous cycle's review the goals were followed up from, and the progress on each of its goals
+  prior_review_id: string | null
+  goal_progress: GoalProgress[]
+  
+  // Processing metadata
+  ai_model_used: string | null
+  processing_time: number | null
+  
+  status: ReviewStatus
+  // Lets the review be edited again after its cycle was closed
+  reopened: boolean
+  // Set by the database each time the review is finalized; employees read this copy
+  finalized_at: string | null
+  finalized_sections: Record<string, string> | null
+  finalized_ratings: Record<string, number> | null
   created_at: string
   updated_at: string
 }
 
+export interface ReviewTemplate {
+  id: string
+  name: string
+  description: string | null
+  is_default: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Template sections are never edited in place; each change adds a version so reviews keep the one they used
+export interface ReviewTemplateVersion {
+  id: string
+  template_id: string
+  version: number
+  sections: ReviewSection[]
+  created_by: string | null
+  created_at: string
+}
+
+export interface ReviewHistory {
+  id: string
+  review_id: string
+  changed_by: string
+  change_type: string
+  changes: Record<string, any> | null
+  changed_by_name: string | null
+  created_at: string
+}
+
 // Utility functions
-export async function uploadFile(file: File, bucket: string, fileName: string) {
-  const { data, error } = await supabase.storage
+
+// Uploads with the token of a signed upload URL issued by /api/uploads, so the file goes straight
+// to storage instead of through the API routes
+export async function uploadFile(file: File, bucket: string, path: string, token: string) {
+  const { data, error } = await getBrowserSupabase().storage
     .from(bucket)
-    .upload(fileName, file)
-    
+    .uploadToSignedUrl(path, token, file, { contentType: uploadContentType(file) })
+
   if (error) throw error
   return data
 }
 
-export async function getFileUrl(bucket: string, fileName: string) {
-  const { data } = supabase.storage
-    .from(bucket)
-    .getPublicUrl(fileName)
-    
-  return data.publicUrl
-}
\ No newline at end of file
+// The bucket is private; stored documents are opened through short-lived signed URLs from the API
+export async function getFeedback360Url(reviewId: string) {
+  const response = await fetch(`/api/reviews/${reviewId}/feedback-360`)
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.details || result.error)
+  return result.url as string
+}
@@ -0,0 +1,560 @@
+// Input gathering and prompt building shared by the synthesis endpoints
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getRequestedProvider, modelIdentifier, stripCodeFences, LLMProvider } from './llm'
+import { extractITPScores, formatResolvedITPScores, resolveITPScores, toITPScoreInput, ITPExtraction, ResolvedITPScores } from './itp-extraction'
+import { analyzeITPGaps, formatGapAnalysis, getGapThresholds, GapAnalysis } from './gap-analysis'
+import { ITP_DIMENSIONS, ITPScoreInput, parseITPScoreInput } from './itp'
+import { extractTextFromPDF } from './pdf-utils'
+import { formPaths, readUpload, readUploads, UploadedFile } from './uploads'
+import { extractSelfReviewText, normalizeSelfReviewText, MAX_SELF_REVIEW_CHARS } from './self-review'
+import { analyzeFeedback360, prepareFeedback360ForPrompt } from './feedback360'
+import { formatFeedback360Analysis, Feedback360Analysis } from './feedback360-analysis'
+import type { Review, ReviewStatus } from './supabase'
+import type { AuthContext } from './auth'
+import { columnsToITPScores, getReview, saveReview, itpScoresToColumns, reviewInputSources, ReviewFields } from './reviews'
+import { assertReviewEditable } from './review-cycles'
+import { currentSnapshot, recordReviewHistory } from './review-history'
+import { ReviewSectionText, getReviewSection } from './review-sections'
+import { resolveTemplate, ResolvedTemplate, STANDARD_TEMPLATE } from './review-templates'
+import { groundEvidence, EvidenceSourceText, ReviewEvidence, EVIDENCE_SOURCES } from './review-evidence'
+import { formatPriorReview, loadPriorReview, PriorReview } from './prior-review'
+import { createRedactor, getRedactionSettings, redactingLogger, Redactor, REDACTION_INSTRUCTION } from './redaction'
+import {
+  buildRepairPrompt,
+  parseReviewContent,
+  reviewJSONTemplate,
+  toSectionText,
+  ReviewContent,
+  ReviewOutputError,
+  MAX_REPAIR_ATTEMPTS
+} from './review-output'
+
+export interface DataUsed {
+  itpScores: boolean
+  feedback360: boolean
+  selfReview: boolean
+  managerComments: boolean
+}
+
+export interface ExtractedData {
+  itpEmployeeScores: ResolvedITPScores | null
+  itpManagerScores: ResolvedITPScores | null
+  gapAnalysis: GapAnalysis | null
+  feedback360Summary: string | null
+  feedback360Pages: number | null
+  // Comments by rater group and their recurring themes; used in place of the 360 text when set
+  feedback360Analysis: Feedback360Analysis | null
+  // The self review in full, from an uploaded document or pasted text
+  selfReviewText: string | null
+}
+
+export interface SynthesisInputs {
+  employeeId: string
+  reviewCycleId: string
+  // Signed-in manager; recorded as the author of history entries
+  userId: string
+  // Set when an employee and cycle were selected, so the review can be persisted
+  reviewClient: SupabaseClient | null
+  existingReview: Review | null
+  provider: LLMProvider
+  // Applied to everything sent to the provider; its output is rehydrated with the same redactor
+  redactor: Redactor
+  template: ResolvedTemplate
+  managerComments: string
+  // The employee's previous review, when the manager asked for a comparison and there is one
+  priorReview: PriorReview | null
+  dataUsed: DataUsed
+  extractedData: ExtractedData
+  feedback360Summarized: boolean
+  // Inputs saved with the review regardless of whether generation succeeds
+  inputFields: ReviewFields
+}
+
+// Problems with the submitted inputs that the manager needs to fix (HTTP 400)
+export class SynthesisInputError extends Error {
+  details: string
+
+  constructor(message: string, details: string) {
+    super(message)
+    this.name = 'SynthesisInputError'
+    this.details = details
+  }
+}
+
+// Extraction failures should not block synthesis; the scores are simply left out
+async function safeExtractITPScores(
+  files: UploadedFile[],
+  typed: ITPScoreInput,
+  label: string,
+  provider: LLMProvider
+): Promise<ITPExtraction | null> {
+  if (files.length === 0 || !provider.isConfigured()) return null
+  // Nothing left to extract when every dimension was typed in
+  if (ITP_DIMENSIONS.every(d => typed[d] !== undefined)) return null
+  try {
+    return await extractITPScores(files, provider)
+  } catch (error) {
+    console.error(`ITP ${label} extraction failed:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// Redacts the names of the people the manager can see (their team, or everyone for admins) and
+// their own, along with contact details and employee IDs
+export async function loadRedactor(auth: AuthContext): Promise<Redactor> {
+  const [employeesResult, userResult] = await Promise.all([
+    auth.client.from('employees').select('name'),
+    auth.client.from('users').select('name').eq('id', auth.user.id).maybeSingle()
+  ])
+  if (employeesResult.error) throw employeesResult.error
+  if (userResult.error) throw userResult.error
+
+  const names = (employeesResult.data || []).map(e => e.name as string)
+  if (userResult.data?.name) names.push(userResult.data.name)
+  return createRedactor({ names, ...getRedactionSettings() })
+}
+
+// Theming failures should not block synthesis; the 360 text is used as it is instead
+async function safeAnalyzeFeedback360(text: string, provider: LLMProvider, redactor: Redactor) {
+  if (!provider.isConfigured()) return null
+  try {
+    return await analyzeFeedback360(text, provider, redactor)
+  } catch (error) {
+    console.error('360 feedback theming failed:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// Long reports are summarized by the provider, so they are redacted first; the summary is kept
+// rehydrated like the other inputs
+async function prepareFeedback360(text: string, provider: LLMProvider, redactor: Redactor) {
+  const prepared = await prepareFeedback360ForPrompt(redactor.redact(text), provider)
+  return prepared.summarized ? { text: redactor.rehydrate(prepared.text), summarized: true } : { text, summarized: false }
+}
+
+export async function gatherSynthesisInputs(formData: FormData, auth: AuthContext): Promise<SynthesisInputs> {
+  // The provider picked on the page, or the configured default
+  const providerName = formData.get('provider') as string | null
+  const provider = getRequestedProvider(providerName)
+  if (!provider) {
+    throw new SynthesisInputError('Invalid provider', `Unknown AI provider "${providerName}"`)
+  }
+
+  const redactor = await loadRedactor(auth)
+  const logger = redactingLogger(redactor)
+
+  const managerComments = formData.get('managerComments') as string || ''
+  // Only the length: a cut-off excerpt can end partway through a name, which redaction then misses
+  logger.log(`Manager comments: ${managerComments ? `${managerComments.length} chars` : 'empty'}`)
+
+  // When an employee and cycle are selected the review is persisted and stored inputs are reused
+  const employeeId = formData.get('employeeId') as string || ''
+  const reviewCycleId = formData.get('reviewCycleId') as string || ''
+  const reviewClient = employeeId && reviewCycleId ? auth.client : null
+  const existingReview = reviewClient ? await getReview(reviewClient, employeeId, reviewCycleId) : null
+  if (reviewClient) await assertReviewEditable(reviewClient, reviewCycleId, existingReview)
+  const priorReview = reviewClient && formData.get('includePriorReview') === 'true'
+    ? await loadPriorReview(reviewClient, employeeId, reviewCycleId)
+    : null
+
+  // The template picked on the page, else the one the review was generated with, else the default
+  const templateId = formData.get('templateId') as string | null
+  const template = await resolveTemplate(auth.client, { templateId, versionId: existingReview?.template_version_id })
+  if (!template) {
+    throw new SynthesisInputError('Invalid template', 'The selected review template was not found')
+  }
+
+  // Scores typed into the score grid; these take precedence over screenshot extraction
+  const typedSelfScores = parseITPScoreInput(formData.get('itpSelfScores') as string | null)
+  const typedManagerScores = parseITPScoreInput(formData.get('itpManagerScores') as string | null)
+  const scoreErrors = [...typedSelfScores.errors, ...typedManagerScores.errors]
+  if (scoreErrors.length > 0) {
+    throw new SynthesisInputError('Invalid ITP scores', scoreErrors.join('; '))
+  }
+
+  // Files are uploaded to storage by the browser; the form carries their storage paths
+  const itpEmployeeFiles = formPaths(formData, 'itpEmployeeScreenshots')
+  const itpManagerFiles = formPaths(formData, 'itpManagerScreenshots')
+  const feedback360Path = formPaths(formData, 'feedback360')[0] || null
+  const selfReviewPath = formPaths(formData, 'selfReviewFile')[0] || null
+
+  logger.log('Files:', {
+    itpEmployee: itpEmployeeFiles.length,
+    itpManager: itpManagerFiles.length,
+    feedback360: !!feedback360Path,
+    selfReview: !!selfReviewPath
+  })
+
+  const [employeeUploads, managerUploads] = await Promise.all([
+    readUploads(auth.client, auth.user.id, 'itp_screenshot', itpEmployeeFiles),
+    readUploads(auth.client, auth.user.id, 'itp_screenshot', itpManagerFiles)
+  ])
+  const itpFiles = { employee: employeeUploads, manager: managerUploads }
+  const [employeeExtraction, managerExtraction] = await Promise.all([
+    safeExtractITPScores(itpFiles.employee, typedSelfScores.scores, 'employee', provider),
+    safeExtractITPScores(itpFiles.manager, typedManagerScores.scores, 'manager', provider)
+  ])
+  const itpEmployeeScores = resolveITPScores(typedSelfScores.scores, employeeExtraction)
+  const itpManagerScores = resolveITPScores(typedManagerScores.scores, managerExtraction)
+  const gapAnalysis = analyzeITPGaps(toITPScoreInput(itpEmployeeScores), toITPScoreInput(itpManagerScores), getGapThresholds())
+
+  let feedback360Text: string | null = null
+  let feedback360Pages: number | null = null
+  let feedback360: { text: string; summarized: boolean; pageCount: number | null } | null = null
+  let feedback360Analysis: Feedback360Analysis | null = null
+  if (feedback360Path) {
+    const feedback360File = await readUpload(auth.client, auth.user.id, 'feedback360', feedback360Path)
+    const pdf = await extractTextFromPDF(await feedback360File.arrayBuffer())
+    logger.log(`360 feedback: ${pdf.pageCount} pages, ${pdf.text.length} chars`)
+    feedback360Text = pdf.text
+    feedback360Pages = pdf.pageCount
+  } else if (existingReview?.feedback_360_text) {
+    logger.log('Using stored 360 feedback text')
+    feedback360Text = existingReview.feedback_360_text
+  }
+
+  if (feedback360Text) {
+    // The stored themes are reused as long as the stored 360 text is
+    feedback360Analysis = !feedback360Path && existingReview?.feedback_360_analysis
+      ? existingReview.feedback_360_analysis
+      : await safeAnalyzeFeedback360(feedback360Text, provider, redactor)
+    const prepared = provider.isConfigured() && !feedback360Analysis
+      ? await prepareFeedback360(feedback360Text, provider, redactor)
+      : { text: feedback360Text, summarized: false }
+    feedback360 = { ...prepared, pageCount: feedback360Pages }
+  }
+
+  // An uploaded self review document takes the place of pasted text
+  let selfReviewText: string | null = normalizeSelfReviewText(formData.get('selfReviewText') as string || '') || null
+  if (selfReviewPath) {
+    selfReviewText = await extractSelfReviewText(await readUpload(auth.client, auth.user.id, 'self_review', selfReviewPath))
+    logger.log(`Self review: ${selfReviewText.length} chars`)
+  }
+  if (selfReviewText && selfReviewText.length > MAX_SELF_REVIEW_CHARS) {
+    throw new SynthesisInputError(
+      'Self review is too long',
+      `The self review is ${selfReviewText.length.toLocaleString()} characters; the limit is ${MAX_SELF_REVIEW_CHARS.toLocaleString()}`
+    )
+  }
+
+  const dataUsed: DataUsed = {
+    itpScores: itpEmployeeFiles.length > 0 || itpManagerFiles.length > 0 ||
+      Object.keys(typedSelfScores.scores).length > 0 || Object.keys(typedManagerScores.scores).length > 0,
+    feedback360: !!feedback360,
+    selfReview: !!selfReviewText,
+    managerComments: managerComments.trim().length > 0
+  }
+
+  const extractedData: ExtractedData = {
+    itpEmployeeScores,
+    itpManagerScores,
+    gapAnalysis,
+    feedback360Summary: feedback360 ? feedback360.text : null,
+    feedback360Pages: feedback360 ? feedback360.pageCount : null,
+    feedback360Analysis,
+    selfReviewText
+  }
+
+  return {
+    employeeId,
+    reviewCycleId,
+    userId: auth.user.id,
+    reviewClient,
+    existingReview,
+    provider,
+    redactor,
+    template,
+    managerComments,
+    priorReview,
+    dataUsed,
+    extractedData,
+    feedback360Summarized: !!feedback360?.summarized,
+    inputFields: {
+      ...itpScoresToColumns(toITPScoreInput(itpEmployeeScores), toITPScoreInput(itpManagerScores)),
+      manager_comments: managerComments,
+      self_review_text: selfReviewText,
+      ...(feedback360Text ? { feedback_360_text: feedback360Text } : {}),
+      ...(feedback360Path ? { feedback_360_file_url: feedback360Path } : {}),
+      ...(feedback360Analysis !== (existingReview?.feedback_360_analysis ?? null) ? { feedback_360_analysis: feedback360Analysis } : {})
+    }
+  }
+}
+
+// The extracted data shown with a saved review, from its stored inputs. Screenshot scores were
+// saved as scores, and the 360 text is the stored text rather than a summary of it.
+export function storedExtractedData(review: Review): ExtractedData {
+  const { self, manager } = columnsToITPScores(review)
+  return {
+    itpEmployeeScores: resolveITPScores(self, null),
+    itpManagerScores: resolveITPScores(manager, null),
+    gapAnalysis: analyzeITPGaps(self, manager, getGapThresholds()),
+    feedback360Summary: review.feedback_360_text || null,
+    feedback360Pages: null,
+    feedback360Analysis: review.feedback_360_analysis,
+    selfReviewText: review.self_review_text || null
+  }
+}
+
+// Inputs from a review's stored fields, for generating without the page's uploads (bulk generation
+// and section rewrites). A section rewrite follows up the same prior review as the full review did.
+export async function storedSynthesisInputs(
+  auth: AuthContext,
+  review: Review,
+  provider: LLMProvider,
+  { includePriorReview = false } = {}
+): Promise<SynthesisInputs> {
+  const redactor = await loadRedactor(auth)
+  const feedback360Analysis = review.feedback_360_text
+    ? review.feedback_360_analysis || await safeAnalyzeFeedback360(review.feedback_360_text, provider, redactor)
+    : null
+  const feedback360 = review.feedback_360_text
+    ? feedback360Analysis
+      ? { text: review.feedback_360_text, summarized: false }
+      : await prepareFeedback360(review.feedback_360_text, provider, redactor)
+    : null
+
+  return {
+    employeeId: review.employee_id,
+    reviewCycleId: review.review_cycle_id,
+    userId: auth.user.id,
+    reviewClient: auth.client,
+    existingReview: review,
+    provider,
+    redactor,
+    template: (await resolveTemplate(auth.client, { versionId: review.template_version_id })) || STANDARD_TEMPLATE,
+    managerComments: review.manager_comments || '',
+    priorReview: includePriorReview && review.prior_review_id
+      ? await loadPriorReview(auth.client, review.employee_id, review.review_cycle_id)
+      : null,
+    dataUsed: reviewInputSources(review),
+    extractedData: {
+      ...storedExtractedData(review),
+      feedback360Summary: feedback360 ? feedback360.text : null,
+      feedback360Analysis
+    },
+    feedback360Summarized: !!feedback360?.summarized,
+    inputFields: feedback360Analysis && !review.feedback_360_analysis ? { feedback_360_analysis: feedback360Analysis } : {}
+  }
+}
+
+// The text of each input as it is given to the model (redacted), keyed by source; quotes cited as
+// evidence are checked against it
+export function evidenceSourceText(inputs: SynthesisInputs): EvidenceSourceText {
+  const { extractedData, managerComments } = inputs
+  const text: EvidenceSourceText = {}
+
+  const itp: string[] = []
+  if (extractedData.itpEmployeeScores) {
+    itp.push(formatResolvedITPScores('ITP Employee Scores', extractedData.itpEmployeeScores))
+  }
+  if (extractedData.itpManagerScores) {
+    itp.push(formatResolvedITPScores('ITP Manager Scores', extractedData.itpManagerScores))
+  }
+  if (extractedData.gapAnalysis) {
+    itp.push(`ITP Gap Analysis (self vs manager):\n${formatGapAnalysis(extractedData.gapAnalysis)}`)
+  }
+  if (itp.length > 0) text.itpScores = itp.join('\n\n')
+
+  if (extractedData.feedback360Analysis) {
+    text.feedback360 = `360 Feedback ${formatFeedback360Analysis(extractedData.feedback360Analysis)}`
+  } else if (extractedData.feedback360Summary) {
+    text.feedback360 = `360 Feedback${inputs.feedback360Summarized ? ' (summarized from the full report)' : ''}:\n${extractedData.feedback360Summary}`
+  }
+  if (extractedData.selfReviewText) {
+    text.selfReview = `Self Review:\n${extractedData.selfReviewText}`
+  }
+  if (managerComments.trim()) {
+    text.managerComments = `Manager Comments: ${managerComments}`
+  }
+
+  EVIDENCE_SOURCES.forEach(source => {
+    if (text[source]) text[source] = inputs.redactor.redact(text[source]!)
+  })
+  return text
+}
+
+// Each input is tagged with its source so the model can cite it as evidence
+export function buildDataContext(inputs: SynthesisInputs) {
+  const text = evidenceSourceText(inputs)
+  const dataSources = EVIDENCE_SOURCES.filter(source => text[source]).map(source => `[${source}] ${text[source]}`)
+  return dataSources.length > 0 ? dataSources.join('\n\n') : 'No data provided'
+}
+
+// Last cycle's goals and the ITP trend, when a previous review was loaded
+function priorReviewContext(inputs: SynthesisInputs) {
+  const { priorReview, extractedData } = inputs
+  if (!priorReview) return ''
+  const text = formatPriorReview(priorReview, {
+    self: toITPScoreInput(extractedData.itpEmployeeScores),
+    manager: toITPScoreInput(extractedData.itpManagerScores)
+  })
+  if (!text) return ''
+
+  const trend = priorReview.itpTrend.length > 0
+    ? '\nComment on sustained improvement or decline in the ITP scores across cycles where it is relevant.'
+    : ''
+  return `
+
+PREVIOUS REVIEW (${priorReview.cycleName}):
+${inputs.redactor.redact(text)}${trend}`
+}
+
+function priorGoals(inputs: SynthesisInputs) {
+  return inputs.priorReview ? inputs.priorReview.goals : []
+}
+
+function gapInstruction(inputs: SynthesisInputs) {
+  return inputs.extractedData.gapAnalysis
+    ? "\nAddress any blind spots (self-rating above the manager's) in the development feedback and acknowledge any hidden strengths (manager rating above self-rating) in the strengths section."
+    : ''
+}
+
+export function buildReviewPrompt(inputs: SynthesisInputs) {
+  return `You are a professional HR performance review writer. Generate a performance review based on the following data.
+
+DATA SOURCES:
+${buildDataContext(inputs)}${priorReviewContext(inputs)}
+
+Return ONLY a valid JSON object with exactly these keys (no markdown, no code fences, just raw JSON):
+${reviewJSONTemplate(inputs.template.sections, priorGoals(inputs))}
+
+Make the content specific to the data provided. Be professional and constructive.${gapInstruction(inputs)}
+${REDACTION_INSTRUCTION}`
+}
+
+// Puts the redacted details back into generated text and the evidence quotes
+function rehydrateContent(content: ReviewContent, redactor: Redactor): ReviewContent {
+  const sections: ReviewContent['sections'] = {}
+  Object.keys(content.sections).forEach(key => {
+    const value = content.sections[key]
+    sections[key] = typeof value === 'string'
+      ? redactor.rehydrate(value)
+      : value.map(item => ({ title: redactor.rehydrate(item.title), description: redactor.rehydrate(item.description) }))
+  })
+
+  const evidence: ReviewEvidence = {}
+  Object.keys(content.evidence).forEach(key => {
+    evidence[key] = content.evidence[key].map(claim => ({
+      claim: redactor.rehydrate(claim.claim),
+      sources: claim.sources.map(s => ({ source: s.source, quote: redactor.rehydrate(s.quote) }))
+    }))
+  })
+
+  const goalProgress = content.goalProgress.map(p => ({ ...p, assessment: redactor.rehydrate(p.assessment) }))
+  return { sections, ratings: content.ratings, evidence, goalProgress }
+}
+
+// Invalid output is sent back to the model with the validation errors, up to MAX_REPAIR_ATTEMPTS
+// times. onText receives each attempt's text as it streams, still redacted; the returned content
+// is rehydrated.
+export async function generateReviewContent(
+  inputs: SynthesisInputs,
+  onText: (textSoFar: string) => void = () => {}
+): Promise<ReviewContent> {
+  const prompt = buildReviewPrompt(inputs)
+  let previousOutput = ''
+  let errors: string[] = []
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const attemptPrompt = attempt === 0 ? prompt : buildRepairPrompt(prompt, previousOutput, errors)
+    previousOutput = stripCodeFences(await inputs.provider.stream(
+      attemptPrompt,
+      textSoFar => onText(stripCodeFences(textSoFar)),
+      { json: true }
+    ))
+
+    const result = parseReviewContent(previousOutput, inputs.template.sections, priorGoals(inputs))
+    if (result.content) {
+      // Quotes are checked against the redacted inputs the model actually saw
+      const grounded = { ...result.content, evidence: groundEvidence(result.content.evidence, evidenceSourceText(inputs)) }
+      return rehydrateContent(grounded, inputs.redactor)
+    }
+
+    errors = result.errors
+    console.error(`Invalid review output (attempt ${attempt + 1}):`, errors.join('; '))
+  }
+
+  throw new ReviewOutputError(errors, MAX_REPAIR_ATTEMPTS + 1)
+}
+
+// Rewrites one section; the other sections are included so the rewrite stays consistent with them
+export function buildSectionPrompt(
+  inputs: SynthesisInputs,
+  sectionKey: string,
+  currentSections: Partial<ReviewSectionText>,
+  instruction: string
+) {
+  const { redact } = inputs.redactor
+  const target = getReviewSection(inputs.template.sections, sectionKey)!
+  const otherSections = inputs.template.sections
+    .filter(s => s.key !== sectionKey && currentSections[s.key]?.trim())
+    .map(s => `${s.title.toUpperCase()}:\n${redact(currentSections[s.key]!)}`)
+    .join('\n\n')
+
+  return `You are a professional HR performance review writer. Rewrite one section of an existing performance review.
+
+DATA SOURCES:
+${buildDataContext(inputs)}${priorReviewContext(inputs)}
+
+${otherSections ? `OTHER SECTIONS OF THE REVIEW (keep the new section consistent with these, do not repeat them):
+${otherSections}
+
+` : ''}SECTION TO WRITE: ${target.title}
+Content: ${[target.instructions, target.length].filter(Boolean).join(' - ')}
+${currentSections[sectionKey]?.trim() ? `
+CURRENT VERSION OF THIS SECTION:
+${redact(currentSections[sectionKey]!)}
+` : ''}${instruction.trim() ? `
+MANAGER GUIDANCE FOR THE REWRITE: ${redact(instruction.trim())}
+` : ''}
+Return ONLY the text of the new section (no heading, no JSON, no markdown${target.format === 'numbered_list' ? '), as a numbered list with one "1. Title: description" item per line' : ')'}. Be professional and constructive.${gapInstruction(inputs)}
+${REDACTION_INSTRUCTION}`
+}
+
+// Saving is best-effort: a storage failure is reported but the generated text is still returned
+export async function persistReview(
+  inputs: SynthesisInputs,
+  fields: ReviewFields,
+  status?: ReviewStatus
+): Promise<{ review?: Review; saveError?: string }> {
+  if (!inputs.reviewClient) return {}
+  try {
+    return { review: await saveReview(inputs.reviewClient, inputs.employeeId, inputs.reviewCycleId, fields, status) }
+  } catch (saveError) {
+    console.error('Failed to save review:', saveError)
+    return { saveError: saveError instanceof Error ? saveError.message : 'Failed to save review' }
+  }
+}
+
+// Stores generated content as the review's new AI draft and records it in the history.
+// A full regeneration replaces earlier edits; they remain restorable from the review history.
+export async function saveGeneratedReview(inputs: SynthesisInputs, content: ReviewContent, startedAt: number) {
+  const saved = await persistReview(inputs, {
+    ...inputs.inputFields,
+    template_version_id: inputs.template.versionId,
+    generated_sections: toSectionText(content),
+    final_sections: {},
+    section_ratings: content.ratings,
+    section_evidence: content.evidence,
+    // Acknowledgements were for findings in the replaced text
+    acknowledged_findings: [],
+    goal_progress: content.goalProgress,
+    prior_review_id: inputs.priorReview?.reviewId ?? null,
+    ai_model_used: modelIdentifier(inputs.provider),
+    processing_time: Math.round((Date.now() - startedAt) / 1000)
+  }, 'generated')
+
+  if (inputs.reviewClient && saved.review) {
+    try {
+      await recordReviewHistory(inputs.reviewClient, saved.review.id, inputs.userId, 'generated', {
+        fields: {},
+        snapshot: currentSnapshot(saved.review)
+      })
+    } catch (historyError) {
+      console.error('Failed to record review history:', historyError)
+    }
+  }
+
+  return saved
+}
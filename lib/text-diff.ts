@@ -0,0 +1,52 @@
+// Word-level text diff used for the review edit history
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Splits into words while keeping the whitespace attached, so joined parts reproduce the text exactly
+function tokenize(text: string) {
+  return text.match(/\s*\S+\s*/g) || []
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+// Longest-common-subsequence diff; review sections are short enough for the O(n*m) table
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
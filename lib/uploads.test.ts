@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { detectContentType, readUpload, validateUpload, DOCX_CONTENT_TYPE, UploadError } from './uploads'
+
+const USER = 'user-1'
+const PATH = `uploads/${USER}/lx1-abc123-report.pdf`
+const PDF = new TextEncoder().encode('%PDF-1.7 test')
+
+function storageClient(size: number, bytes: Uint8Array = PDF) {
+  const download = vi.fn(async () => ({ data: { arrayBuffer: async () => bytes.buffer }, error: null }))
+  const info = vi.fn(async () => ({ data: { size }, error: null }))
+  const client = { storage: { from: () => ({ info, download }) } } as unknown as SupabaseClient
+  return { client, download }
+}
+
+describe('validateUpload', () => {
+  it('accepts supported types within the size limit', () => {
+    expect(validateUpload('feedback360', { name: 'report.pdf', type: 'application/pdf', size: 1024 })).toBeNull()
+    expect(validateUpload('self_review', { name: 'self.docx', type: '', size: 1024 })).toBeNull()
+  })
+
+  it('rejects other types, empty files and files over the limit', () => {
+    expect(validateUpload('feedback360', { name: 'report.png', type: 'image/png', size: 1024 })).toMatch(/not a supported/)
+    expect(validateUpload('feedback360', { name: 'report.pdf', type: 'application/pdf', size: 0 })).toMatch(/is empty/)
+    expect(validateUpload('itp_screenshot', { name: 'a.png', type: 'image/png', size: 11 * 1024 * 1024 })).toMatch(/too large/)
+  })
+})
+
+describe('detectContentType', () => {
+  it('recognizes files by their leading bytes', () => {
+    expect(detectContentType(PDF, 'report.pdf')).toBe('application/pdf')
+    expect(detectContentType(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), 'self.docx')).toBe(DOCX_CONTENT_TYPE)
+    expect(detectContentType(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), 'self.zip')).toBe('application/zip')
+  })
+})
+
+describe('readUpload', () => {
+  it('reads an accepted file', async () => {
+    const { client } = storageClient(PDF.byteLength)
+    const file = await readUpload(client, USER, 'feedback360', PATH)
+    expect(file).toMatchObject({ name: 'report.pdf', type: 'application/pdf', size: PDF.byteLength })
+  })
+
+  it('rejects a stored file over the limit without downloading it', async () => {
+    const { client, download } = storageClient(25 * 1024 * 1024)
+    await expect(readUpload(client, USER, 'feedback360', PATH)).rejects.toThrow(/too large/)
+    expect(download).not.toHaveBeenCalled()
+  })
+
+  it("rejects another user's files", async () => {
+    const { client } = storageClient(PDF.byteLength)
+    await expect(readUpload(client, USER, 'feedback360', 'uploads/user-2/report.pdf')).rejects.toThrow(UploadError)
+  })
+
+  it('rejects a file whose contents are not the accepted type', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    const { client } = storageClient(png.byteLength, png)
+    await expect(readUpload(client, USER, 'feedback360', PATH)).rejects.toThrow(/not a supported/)
+  })
+})
@@ -0,0 +1,183 @@
+// Direct-to-storage uploads. The browser uploads input files to the review-documents bucket with
+// signed upload URLs, and the API routes read them back by storage path, so request bodies stay
+// small whatever the file size. Types and sizes are checked when the URL is issued and again,
+// against the stored bytes, when a file is read. The bucket itself rejects files over the largest
+// limit or of other types (20261105_upload_limits.sql), and a stored file's size is checked before
+// it is downloaded.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const REVIEW_DOCUMENTS_BUCKET = 'review-documents'
+
+export type UploadKind = 'itp_screenshot' | 'feedback360' | 'self_review'
+
+export const IMAGE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// Browsers report these types inconsistently (often not at all for .md), so they go by extension
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  docx: DOCX_CONTENT_TYPE,
+  txt: 'text/plain',
+  md: 'text/markdown'
+}
+
+const MB = 1024 * 1024
+
+// Keep the bucket's file_size_limit and allowed_mime_types in step with these
+export const UPLOAD_RULES: Record<UploadKind, { label: string; contentTypes: string[]; maxBytes: number }> = {
+  itp_screenshot: { label: 'ITP screenshot', contentTypes: IMAGE_CONTENT_TYPES, maxBytes: 10 * MB },
+  feedback360: { label: '360 feedback document', contentTypes: ['application/pdf'], maxBytes: 20 * MB },
+  self_review: { label: 'Self review document', contentTypes: [DOCX_CONTENT_TYPE, 'text/plain', 'text/markdown'], maxBytes: 5 * MB }
+}
+
+// A file read back from storage; the parts of File the extraction code uses
+export interface UploadedFile {
+  path: string
+  name: string
+  type: string // detected from the file's contents, not the type it was uploaded with
+  size: number
+  arrayBuffer(): Promise<ArrayBuffer>
+}
+
+// An upload that is missing, belongs to someone else or isn't an accepted type or size (HTTP 400)
+export class UploadError extends Error {
+  status = 400
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+export function isUploadKind(value: unknown): value is UploadKind {
+  return typeof value === 'string' && value in UPLOAD_RULES
+}
+
+export function formatFileSize(bytes: number) {
+  return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+function fileExtension(name: string) {
+  const dot = name.lastIndexOf('.')
+  return dot === -1 ? '' : name.substring(dot + 1).toLowerCase()
+}
+
+// The content type to upload a file with: from its extension for document types, otherwise as reported
+export function uploadContentType(file: { name: string; type: string }) {
+  return EXTENSION_CONTENT_TYPES[fileExtension(file.name)] || file.type
+}
+
+function contentTypeLabel(type: string) {
+  const extension = Object.keys(EXTENSION_CONTENT_TYPES).filter(ext => EXTENSION_CONTENT_TYPES[ext] === type)[0]
+  return (extension || type.split('/')[1]).toUpperCase()
+}
+
+// Problem with a file before it is uploaded, or null when it is acceptable
+export function validateUpload(kind: UploadKind, file: { name: string; type: string; size: number }): string | null {
+  const rule = UPLOAD_RULES[kind]
+  if (!rule.contentTypes.includes(uploadContentType(file))) {
+    return `"${file.name}" is not a supported ${rule.label} (${rule.contentTypes.map(contentTypeLabel).join(', ')})`
+  }
+  return sizeProblem(kind, file)
+}
+
+function sizeProblem(kind: UploadKind, file: { name: string; size: number }): string | null {
+  const rule = UPLOAD_RULES[kind]
+  if (file.size <= 0) return `"${file.name}" is empty`
+  if (file.size > rule.maxBytes) {
+    return `"${file.name}" is too large (${formatFileSize(file.size)}). The maximum for a ${rule.label} is ${formatFileSize(rule.maxBytes)}.`
+  }
+  return null
+}
+
+// Each user uploads into their own folder; the storage policies only allow that folder
+function uploadFolder(userId: string) {
+  return `uploads/${userId}/`
+}
+
+function safeFileName(name: string) {
+  return name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 100) || 'file'
+}
+
+export function isOwnUpload(userId: string, path: string) {
+  return path.startsWith(uploadFolder(userId)) && !path.includes('..')
+}
+
+// The original file name, without the unique prefix added on upload
+function uploadFileName(path: string) {
+  return path.substring(path.lastIndexOf('/') + 1).replace(/^[a-z0-9]+-[a-z0-9]+-/, '')
+}
+
+// Leading bytes read to detect a stored file's type
+const SNIFF_BYTES = 512
+
+// Recognizes the accepted types by their leading bytes. DOCX files are ZIP archives and text
+// files have no signature, so for those the file name decides which type it is.
+export function detectContentType(bytes: Uint8Array, name: string): string | null {
+  const startsWith = (signature: number[], offset = 0) => signature.every((byte, i) => bytes[offset + i] === byte)
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif'
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp'
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) return fileExtension(name) === 'docx' ? DOCX_CONTENT_TYPE : 'application/zip'
+  if (bytes.length > 0 && bytes.indexOf(0) === -1) return fileExtension(name) === 'md' ? 'text/markdown' : 'text/plain'
+  return null
+}
+
+export async function createUploadUrl(
+  client: SupabaseClient,
+  userId: string,
+  kind: UploadKind,
+  file: { name: string; type: string; size: number }
+): Promise<{ path: string; token: string }> {
+  const problem = validateUpload(kind, file)
+  if (problem) throw new UploadError(problem)
+
+  const unique = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
+  const path = `${uploadFolder(userId)}${unique}-${safeFileName(file.name)}`
+  const { data, error } = await client.storage.from(REVIEW_DOCUMENTS_BUCKET).createSignedUploadUrl(path)
+
+  if (error) throw error
+  return { path: data.path, token: data.token }
+}
+
+export async function readUpload(client: SupabaseClient, userId: string, kind: UploadKind, path: string): Promise<UploadedFile> {
+  if (!isOwnUpload(userId, path)) throw new UploadError('Uploaded file not found')
+
+  const name = uploadFileName(path)
+  const unreadable = new UploadError(`"${name}" could not be read from storage. Upload it again.`)
+  const storage = client.storage.from(REVIEW_DOCUMENTS_BUCKET)
+
+  // The size the client declared for the upload URL isn't binding, so the stored size is checked
+  // before the whole file is loaded into memory
+  const { data: info, error: infoError } = await storage.info(path)
+  if (infoError || !info) throw unreadable
+  const storedSizeProblem = typeof info.size === 'number' ? sizeProblem(kind, { name, size: info.size }) : null
+  if (storedSizeProblem) throw new UploadError(storedSizeProblem)
+
+  const { data, error } = await storage.download(path)
+  if (error || !data) throw unreadable
+
+  const buffer = await data.arrayBuffer()
+  const file = {
+    path,
+    name,
+    type: detectContentType(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, SNIFF_BYTES)), name) || 'application/octet-stream',
+    size: buffer.byteLength,
+    arrayBuffer: async () => buffer
+  }
+  const problem = validateUpload(kind, file)
+  if (problem) throw new UploadError(problem)
+  return file
+}
+
+export async function readUploads(client: SupabaseClient, userId: string, kind: UploadKind, paths: string[]) {
+  return Promise.all(paths.map(path => readUpload(client, userId, kind, path)))
+}
+
+// Storage paths from a form field; uploads are referenced by path rather than sent as bytes
+export function formPaths(formData: FormData, field: string) {
+  return formData.getAll(field).filter((value): value is string => typeof value === 'string' && value.length > 0)
+}
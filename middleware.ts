@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs'
+
+// Pages and endpoints reachable without a session
+const PUBLIC_PATHS = ['/login', '/auth/callback']
+
+export async function middleware(request: NextRequest) {
+  const response = NextResponse.next()
+  // Also refreshes an expired session and writes the new cookies to the response
+  const supabase = createMiddlewareClient({ req: request, res: response })
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const { pathname, search } = request.nextUrl
+  if (session || PUBLIC_PATHS.some(path => pathname.startsWith(path))) {
+    return response
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  loginUrl.searchParams.set('next', pathname + search)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+}
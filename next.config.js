@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Keep the PDF.js build used for 360 extraction out of the server bundle
+    serverComponentsExternalPackages: ['unpdf'],
+  },
 }
 
 module.exports = nextConfig
\ No newline at end of file
@@ -8,7 +8,7 @@ CREATE TABLE users (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   email VARCHAR(255) UNIQUE NOT NULL,
   name VARCHAR(255) NOT NULL,
-  role VARCHAR(50) DEFAULT 'manager',
+  role VARCHAR(50) DEFAULT 'manager', -- 'manager' or 'admin'
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -38,6 +38,28 @@ CREATE TABLE review_cycles (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Review templates: named sets of sections that drive generation, editing and export
+CREATE TABLE review_templates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Versions are never edited; saving a template adds the next version so existing reviews keep theirs
+CREATE TABLE review_template_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES review_templates(id) NOT NULL,
+  version INTEGER NOT NULL,
+  sections JSONB NOT NULL, -- [{ key, title, instructions, length, format, ratingScale }]
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(template_id, version)
+);
+
 -- Reviews table (main data structure)
 CREATE TABLE reviews (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -54,28 +76,31 @@ CREATE TABLE reviews (
   itp_manager_smart INTEGER CHECK (itp_manager_smart BETWEEN 1 AND 10),
   
   -- Input Documents and Text
-  feedback_360_file_url TEXT, -- URL to uploaded PDF in Supabase Storage
+  feedback_360_file_url TEXT, -- Storage path of the uploaded PDF in the review-documents bucket
   feedback_360_text TEXT, -- Extracted text from 360 feedback
+  feedback_360_analysis JSONB, -- 360 comments by rater group and question, grouped into themes with counts and sentiment
   self_review_text TEXT, -- Employee's self review responses
   manager_comments TEXT, -- Manager's observations and comments
   
-  -- AI Generated Review Sections
-  generated_strengths TEXT,
-  generated_development TEXT,
-  generated_goals TEXT,
-  generated_overall TEXT,
-  
-  -- Final Review Content (after manager edits)
-  final_strengths TEXT,
-  final_development TEXT,
-  final_goals TEXT,
-  final_overall TEXT,
+  -- Review sections, keyed by the template section key
+  template_version_id UUID REFERENCES review_template_versions(id), -- NULL: the built-in standard template
+  generated_sections JSONB NOT NULL DEFAULT '{}', -- AI generated text
+  final_sections JSONB NOT NULL DEFAULT '{}', -- Manager edits; sections never edited are absent
+  section_ratings JSONB NOT NULL DEFAULT '{}', -- Ratings for sections with a rating scale
+  section_evidence JSONB NOT NULL DEFAULT '{}', -- Input sources cited for each generated claim
+  acknowledged_findings JSONB NOT NULL DEFAULT '[]', -- Bias and tone findings acknowledged before finalizing
+  prior_review_id UUID REFERENCES reviews(id) ON DELETE SET NULL, -- Previous cycle's review whose goals were followed up
+  goal_progress JSONB NOT NULL DEFAULT '[]', -- Generated status of each of the previous review's goals
   
   -- Processing metadata
-  ai_model_used VARCHAR(100), -- Track which AI model was used
+  ai_model_used VARCHAR(100), -- Provider and model, e.g. 'anthropic:claude-3-haiku-20240307'
   processing_time INTEGER, -- Time taken to generate review (seconds)
   
   status VARCHAR(50) DEFAULT 'draft' CHECK (status IN ('draft', 'inputs_complete', 'generated', 'reviewed', 'finalized')),
+  reopened BOOLEAN NOT NULL DEFAULT FALSE, -- Editable again after its cycle was closed, until finalized
+  finalized_at TIMESTAMP WITH TIME ZONE, -- When the review was last finalized; set by a trigger
+  finalized_sections JSONB, -- Section text as it was last finalized; what the employee reads
+  finalized_ratings JSONB, -- Section ratings as they were last finalized
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
@@ -88,19 +113,39 @@ CREATE TABLE review_history (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   review_id UUID REFERENCES reviews(id) NOT NULL,
   changed_by UUID REFERENCES users(id) NOT NULL,
-  change_type VARCHAR(50) NOT NULL, -- 'created', 'generated', 'edited', 'finalized'
+  change_type VARCHAR(50) NOT NULL, -- 'created', 'generated', 'regenerated', 'edited', 'reverted', 'acknowledged', 'reopened', 'finalized', 'employee_responded', 'employee_acknowledged'
   changes JSONB, -- Store the specific changes made
+  changed_by_name VARCHAR(255), -- Set on insert; other users' profiles are not readable through RLS
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Storage bucket for file uploads
-INSERT INTO storage.buckets (id, name, public) VALUES ('review-documents', 'review-documents', true);
+-- Private storage bucket for file uploads; documents are shared only as short-lived signed URLs.
+-- The size limit and types match the largest limit and the types in UPLOAD_RULES (lib/uploads.ts).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types) VALUES (
+  'review-documents', 'review-documents', false, 20971520,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain', 'text/markdown'
+  ]
+);
 
 -- Row Level Security Policies
 
+-- users.role = 'admin' grants cycle administration across all managers
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::uuid AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
 -- Users can only see their own records
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own profile" ON users FOR SELECT USING (auth.uid()::text = id::text);
+-- users.id is the auth user id; the row is created by the app on first sign-in. Admins are only
+-- made in the database, never through this policy.
+CREATE POLICY "Users can create own profile" ON users FOR INSERT WITH CHECK (
+  auth.uid()::text = id::text AND (role IS NULL OR role = 'manager')
+);
 
 -- Managers can see employees they manage
 ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
@@ -108,6 +153,7 @@ CREATE POLICY "Managers can view their employees" ON employees FOR ALL USING (
   manager_id = auth.uid()::uuid OR 
   auth.uid()::text = id::text
 );
+CREATE POLICY "Admins can view all employees" ON employees FOR SELECT USING (is_admin());
 
 -- Managers can see reviews for their employees
 ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
@@ -115,6 +161,7 @@ CREATE POLICY "Managers can view employee reviews" ON reviews FOR ALL USING (
   manager_id = auth.uid()::uuid OR
   employee_id IN (SELECT id FROM employees WHERE manager_id = auth.uid()::uuid)
 );
+CREATE POLICY "Admins can view all reviews" ON reviews FOR SELECT USING (is_admin());
 
 -- Managers can see review cycles they created or participate in
 ALTER TABLE review_cycles ENABLE ROW LEVEL SECURITY;
@@ -122,12 +169,199 @@ CREATE POLICY "Users can view review cycles" ON review_cycles FOR SELECT USING (
 CREATE POLICY "Managers can create review cycles" ON review_cycles FOR INSERT WITH CHECK (
   created_by = auth.uid()::uuid
 );
+CREATE POLICY "Admins can update review cycles" ON review_cycles FOR UPDATE USING (is_admin());
+
+-- Templates are readable by everyone and managed by admins
+ALTER TABLE review_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view review templates" ON review_templates FOR SELECT USING (true);
+CREATE POLICY "Admins can create review templates" ON review_templates FOR INSERT WITH CHECK (is_admin());
+CREATE POLICY "Admins can update review templates" ON review_templates FOR UPDATE USING (is_admin());
+
+ALTER TABLE review_template_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view review template versions" ON review_template_versions FOR SELECT USING (true);
+CREATE POLICY "Admins can create review template versions" ON review_template_versions FOR INSERT WITH CHECK (is_admin());
 
 -- Review history is viewable by managers of the review
 ALTER TABLE review_history ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Managers can view review history" ON review_history FOR SELECT USING (
   review_id IN (SELECT id FROM reviews WHERE manager_id = auth.uid()::uuid)
 );
+CREATE POLICY "Managers can add review history" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND
+  review_id IN (SELECT id FROM reviews WHERE manager_id = auth.uid()::uuid)
+);
+CREATE POLICY "Admins can add review history" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND is_admin()
+);
+
+-- Employees see the text and ratings of their own reviews as they were finalized, not the manager's inputs
+CREATE OR REPLACE FUNCTION employee_reviews()
+RETURNS TABLE (
+  id UUID,
+  review_cycle_id UUID,
+  template_version_id UUID,
+  sections JSONB,
+  section_ratings JSONB,
+  finalized_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT id, review_cycle_id, template_version_id, finalized_sections, finalized_ratings, finalized_at
+  FROM reviews
+  WHERE employee_id = auth.uid()::uuid AND status = 'finalized' AND NOT reopened;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Employees respond to and acknowledge their finalized reviews through the review history
+CREATE POLICY "Employees can respond to their finalized reviews" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND
+  change_type IN ('employee_responded', 'employee_acknowledged') AND
+  review_id IN (SELECT id FROM employee_reviews())
+);
+CREATE POLICY "Employees can view their responses" ON review_history FOR SELECT USING (
+  changed_by = auth.uid()::uuid AND
+  change_type IN ('employee_responded', 'employee_acknowledged')
+);
+
+-- Input files are uploaded to uploads/<user id>/ in the review-documents bucket with signed upload URLs
+CREATE POLICY "Users can upload to their own folder" ON storage.objects FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'review-documents' AND
+  (storage.foldername(name))[1] = 'uploads' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
+CREATE POLICY "Users can read their own uploads" ON storage.objects FOR SELECT TO authenticated USING (
+  bucket_id = 'review-documents' AND
+  (storage.foldername(name))[1] = 'uploads' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
+CREATE POLICY "Managers can read their reviews' documents" ON storage.objects FOR SELECT TO authenticated USING (
+  bucket_id = 'review-documents' AND
+  EXISTS (
+    SELECT 1 FROM reviews
+    WHERE reviews.feedback_360_file_url = storage.objects.name AND reviews.manager_id = auth.uid()::uuid
+  )
+);
+
+-- Template saves and default changes each run in one transaction; they run as the caller, so the
+-- admin-only policies apply
+CREATE OR REPLACE FUNCTION create_review_template(template_name TEXT, template_description TEXT, template_sections JSONB)
+RETURNS UUID AS $$
+DECLARE
+  new_template_id UUID;
+BEGIN
+  INSERT INTO review_templates (name, description, created_by)
+  VALUES (template_name, template_description, auth.uid()::uuid)
+  RETURNING id INTO new_template_id;
+
+  INSERT INTO review_template_versions (template_id, version, sections, created_by)
+  VALUES (new_template_id, 1, template_sections, auth.uid()::uuid);
+
+  RETURN new_template_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Saves the sections as the template's next version; returns null when there is no such template
+CREATE OR REPLACE FUNCTION update_review_template(template_uuid UUID, template_name TEXT, template_description TEXT, template_sections JSONB)
+RETURNS UUID AS $$
+BEGIN
+  UPDATE review_templates SET name = template_name, description = template_description WHERE id = template_uuid;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO review_template_versions (template_id, version, sections, created_by)
+  SELECT template_uuid, COALESCE(MAX(version), 0) + 1, template_sections, auth.uid()::uuid
+  FROM review_template_versions WHERE template_id = template_uuid;
+
+  RETURN template_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only one template is the default; the partial unique index rejects a second one
+CREATE OR REPLACE FUNCTION set_default_review_template(template_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE review_templates SET is_default = FALSE WHERE is_default AND id <> template_uuid;
+  UPDATE review_templates SET is_default = TRUE WHERE id = template_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set when a review becomes finalized, or is finalized again after being reopened
+CREATE OR REPLACE FUNCTION record_review_finalization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'finalized' AND (TG_OP = 'INSERT' OR OLD.status <> 'finalized' OR (OLD.reopened AND NOT NEW.reopened)) THEN
+    NEW.finalized_at = NOW();
+    NEW.finalized_sections = NEW.generated_sections || NEW.final_sections;
+    NEW.finalized_ratings = NEW.section_ratings;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_review_finalization BEFORE INSERT OR UPDATE ON reviews FOR EACH ROW EXECUTE FUNCTION record_review_finalization();
+
+-- Reviews in a closed cycle are read-only until an admin reopens them through reopen_review()
+CREATE OR REPLACE FUNCTION enforce_review_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  review reviews := CASE WHEN TG_OP = 'INSERT' THEN NEW ELSE OLD END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.reopened AND NOT OLD.reopened AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reopen reviews' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Moving a review into a closed cycle counts as editing it there
+  IF NOT review.reopened AND EXISTS (
+    SELECT 1 FROM review_cycles
+    WHERE status = 'completed' AND id IN (review.review_cycle_id, CASE WHEN TG_OP = 'UPDATE' THEN NEW.review_cycle_id END)
+  ) THEN
+    -- Reopening only sets the flag
+    IF TG_OP = 'UPDATE' AND NEW.reopened AND
+       (to_jsonb(NEW) - 'reopened' - 'updated_at') = (to_jsonb(OLD) - 'reopened' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'This review cycle is closed. Ask an admin to reopen the review to make changes.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_review_lock BEFORE INSERT OR UPDATE OR DELETE ON reviews FOR EACH ROW EXECUTE FUNCTION enforce_review_lock();
+
+-- The only way admins change a review: allows edits to a review in a closed cycle until it is
+-- finalized again
+CREATE OR REPLACE FUNCTION reopen_review(review_uuid UUID)
+RETURNS reviews AS $$
+DECLARE
+  reopened_review reviews;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reopen reviews' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE reviews SET reopened = TRUE
+  WHERE id = review_uuid AND review_cycle_id IN (SELECT id FROM review_cycles WHERE status = 'completed')
+  RETURNING * INTO reopened_review;
+
+  IF reopened_review.id IS NULL THEN
+    RAISE EXCEPTION 'Only reviews in a closed cycle can be reopened' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN reopened_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Whether a review has each text input, so review lists can show it without loading the text.
+-- PostgREST exposes these as computed columns, e.g. select=id,has_feedback_360_text
+CREATE OR REPLACE FUNCTION has_feedback_360_text(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce($1.feedback_360_text, '') <> '';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION has_self_review_text(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce($1.self_review_text, '') <> '';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION has_manager_comments(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce(btrim($1.manager_comments), '') <> '';
+$$ LANGUAGE sql STABLE;
 
 -- Create indexes for performance
 CREATE INDEX idx_employees_manager_id ON employees(manager_id);
@@ -136,6 +370,11 @@ CREATE INDEX idx_reviews_manager_id ON reviews(manager_id);
 CREATE INDEX idx_reviews_cycle_id ON reviews(review_cycle_id);
 CREATE INDEX idx_reviews_status ON reviews(status);
 CREATE INDEX idx_review_history_review_id ON review_history(review_id);
+-- Only one active cycle per year
+CREATE UNIQUE INDEX idx_review_cycles_one_active_per_year ON review_cycles(year) WHERE status = 'active';
+-- Only one default template
+CREATE UNIQUE INDEX idx_review_templates_one_default ON review_templates(is_default) WHERE is_default;
+CREATE INDEX idx_review_template_versions_template_id ON review_template_versions(template_id);
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -151,6 +390,18 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECU
 CREATE TRIGGER update_employees_updated_at BEFORE UPDATE ON employees FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_review_cycles_updated_at BEFORE UPDATE ON review_cycles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON reviews FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_review_templates_updated_at BEFORE UPDATE ON review_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- History entries keep their author's name; runs as the owner so it can read the author's profile
+CREATE OR REPLACE FUNCTION set_review_history_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.changed_by_name = (SELECT name FROM users WHERE id = NEW.changed_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_review_history_author BEFORE INSERT ON review_history FOR EACH ROW EXECUTE FUNCTION set_review_history_author();
 
 -- Sample data for development (optional)
 -- INSERT INTO users (id, email, name, role) VALUES 
@@ -0,0 +1,10 @@
+-- Policies needed once API routes run as the signed-in manager instead of the service role
+
+-- users.id is the auth user id; the row is created by the app on first sign-in
+CREATE POLICY "Users can create own profile" ON users FOR INSERT WITH CHECK (auth.uid()::text = id::text);
+
+-- Managers record history for their own reviews
+CREATE POLICY "Managers can add review history" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND
+  review_id IN (SELECT id FROM reviews WHERE manager_id = auth.uid()::uuid)
+);
@@ -0,0 +1,21 @@
+-- Review cycle administration: activating and closing cycles, and reopening locked reviews
+
+-- Set when an admin reopens a review in a closed cycle; cleared when it is finalized again
+ALTER TABLE reviews ADD COLUMN reopened BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only one active cycle per year
+CREATE UNIQUE INDEX idx_review_cycles_one_active_per_year ON review_cycles(year) WHERE status = 'active';
+
+-- users.role = 'admin' grants cycle administration across all managers
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM users WHERE id = auth.uid()::uuid AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Admins can update review cycles" ON review_cycles FOR UPDATE USING (is_admin());
+CREATE POLICY "Admins can view all employees" ON employees FOR SELECT USING (is_admin());
+CREATE POLICY "Admins can view all reviews" ON reviews FOR SELECT USING (is_admin());
+CREATE POLICY "Admins can reopen reviews" ON reviews FOR UPDATE USING (is_admin());
+CREATE POLICY "Admins can add review history" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND is_admin()
+);
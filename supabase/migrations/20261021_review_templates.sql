@@ -0,0 +1,103 @@
+-- Review templates: named, versioned section definitions that drive generation, editing and export.
+-- Copies the fixed generated_*/final_* columns into JSONB keyed by template section.
+
+CREATE TABLE review_templates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Versions are never edited; saving a template adds the next version so existing reviews keep theirs
+CREATE TABLE review_template_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  template_id UUID REFERENCES review_templates(id) NOT NULL,
+  version INTEGER NOT NULL,
+  sections JSONB NOT NULL, -- [{ key, title, instructions, length, format, ratingScale }]
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(template_id, version)
+);
+
+-- Only one default template
+CREATE UNIQUE INDEX idx_review_templates_one_default ON review_templates(is_default) WHERE is_default;
+CREATE INDEX idx_review_template_versions_template_id ON review_template_versions(template_id);
+
+CREATE TRIGGER update_review_templates_updated_at BEFORE UPDATE ON review_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE review_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view review templates" ON review_templates FOR SELECT USING (true);
+CREATE POLICY "Admins can create review templates" ON review_templates FOR INSERT WITH CHECK (is_admin());
+CREATE POLICY "Admins can update review templates" ON review_templates FOR UPDATE USING (is_admin());
+
+ALTER TABLE review_template_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view review template versions" ON review_template_versions FOR SELECT USING (true);
+CREATE POLICY "Admins can create review template versions" ON review_template_versions FOR INSERT WITH CHECK (is_admin());
+
+-- The standard template, matching the sections reviews were generated with so far
+WITH standard AS (
+  INSERT INTO review_templates (name, description, is_default)
+  VALUES ('Standard review', 'Strengths, development feedback, goals and an overall assessment', TRUE)
+  RETURNING id
+)
+INSERT INTO review_template_versions (template_id, version, sections)
+SELECT id, 1, '[
+  {"key": "strengths", "title": "Greatest Strengths", "instructions": "The employee''s greatest strengths based on the data provided", "length": "2-3 paragraphs", "format": "paragraphs", "ratingScale": null},
+  {"key": "developmentFeedback", "title": "Development Feedback", "instructions": "Areas for development and constructive feedback", "length": "2-3 paragraphs", "format": "paragraphs", "ratingScale": null},
+  {"key": "goalsNextYear", "title": "Goals for Next Year", "instructions": "Goals for the next year, each with a short title and a brief description", "length": "4-5 goals", "format": "numbered_list", "ratingScale": null},
+  {"key": "overallAssessment", "title": "Overall Assessment", "instructions": "An overall assessment summary including data confidence level", "length": "1-2 paragraphs", "format": "paragraphs", "ratingScale": null}
+]'::jsonb
+FROM standard;
+
+ALTER TABLE reviews ADD COLUMN template_version_id UUID REFERENCES review_template_versions(id);
+ALTER TABLE reviews ADD COLUMN generated_sections JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE reviews ADD COLUMN final_sections JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE reviews ADD COLUMN section_ratings JSONB NOT NULL DEFAULT '{}';
+
+UPDATE reviews SET
+  generated_sections = jsonb_strip_nulls(jsonb_build_object(
+    'strengths', generated_strengths,
+    'developmentFeedback', generated_development,
+    'goalsNextYear', generated_goals,
+    'overallAssessment', generated_overall
+  )),
+  final_sections = jsonb_strip_nulls(jsonb_build_object(
+    'strengths', final_strengths,
+    'developmentFeedback', final_development,
+    'goalsNextYear', final_goals,
+    'overallAssessment', final_overall
+  ));
+
+UPDATE reviews SET template_version_id = (
+  SELECT v.id FROM review_template_versions v
+  JOIN review_templates t ON t.id = v.template_id
+  WHERE t.is_default
+)
+WHERE generated_sections <> '{}';
+
+-- History entries name sections by their old final_* column; rename them to the section keys
+CREATE FUNCTION pg_temp.rename_section_keys(value JSONB) RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(
+    CASE key
+      WHEN 'final_strengths' THEN 'strengths'
+      WHEN 'final_development' THEN 'developmentFeedback'
+      WHEN 'final_goals' THEN 'goalsNextYear'
+      WHEN 'final_overall' THEN 'overallAssessment'
+      ELSE key
+    END, item), '{}'::jsonb)
+  FROM jsonb_each(value) AS entries(key, item);
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE review_history SET changes = changes
+  || jsonb_build_object('fields', pg_temp.rename_section_keys(COALESCE(changes->'fields', '{}'::jsonb)))
+  || CASE WHEN changes ? 'snapshot'
+       THEN jsonb_build_object('snapshot', pg_temp.rename_section_keys(changes->'snapshot'))
+       ELSE '{}'::jsonb
+     END
+WHERE changes IS NOT NULL;
+
+-- The old columns are kept until the copy has been checked; 20261102_drop_legacy_section_columns
+-- drops them
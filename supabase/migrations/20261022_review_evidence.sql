@@ -0,0 +1,3 @@
+-- Input evidence for each generated claim, keyed by template section:
+-- { "<section key>": [{ "claim": "...", "sources": [{ "source": "feedback360", "quote": "..." }] }] }
+ALTER TABLE reviews ADD COLUMN section_evidence JSONB NOT NULL DEFAULT '{}';
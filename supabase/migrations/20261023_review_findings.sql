@@ -0,0 +1,2 @@
+-- Ids of high-severity bias and tone findings the manager acknowledged before finalizing
+ALTER TABLE reviews ADD COLUMN acknowledged_findings JSONB NOT NULL DEFAULT '[]';
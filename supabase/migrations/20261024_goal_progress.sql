@@ -0,0 +1,4 @@
+-- Follow-up on the previous cycle's review: which review the goals came from and the
+-- generated status of each of its goals
+ALTER TABLE reviews ADD COLUMN prior_review_id UUID REFERENCES reviews(id) ON DELETE SET NULL;
+ALTER TABLE reviews ADD COLUMN goal_progress JSONB NOT NULL DEFAULT '[]';
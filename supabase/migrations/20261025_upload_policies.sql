@@ -0,0 +1,12 @@
+-- Input files are uploaded straight to storage with signed upload URLs. Each user may only
+-- write and read objects in their own uploads/<user id>/ folder.
+CREATE POLICY "Users can upload to their own folder" ON storage.objects FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'review-documents' AND
+  (storage.foldername(name))[1] = 'uploads' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
+CREATE POLICY "Users can read their own uploads" ON storage.objects FOR SELECT TO authenticated USING (
+  bucket_id = 'review-documents' AND
+  (storage.foldername(name))[1] = 'uploads' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
@@ -0,0 +1,23 @@
+-- Makes the review-documents bucket private. Documents are no longer reachable by public URL;
+-- the API signs short-lived URLs for them, and storage only signs them for the manager of the
+-- review that references the object.
+UPDATE storage.buckets SET public = false WHERE id = 'review-documents';
+
+-- Reviews saved before this stored the public URL of their 360 PDF; keep just the object path
+UPDATE reviews
+SET feedback_360_file_url = regexp_replace(feedback_360_file_url, '^.*/storage/v1/object/public/review-documents/', '')
+WHERE feedback_360_file_url LIKE '%/storage/v1/object/public/review-documents/%';
+
+CREATE POLICY "Managers can read their reviews' documents" ON storage.objects FOR SELECT TO authenticated USING (
+  bucket_id = 'review-documents' AND
+  EXISTS (
+    SELECT 1 FROM reviews
+    WHERE reviews.feedback_360_file_url = storage.objects.name AND reviews.manager_id = auth.uid()::uuid
+  )
+);
+
+-- Existing objects that no review references are no longer readable by anyone but the service
+-- role. List them for review or deletion with:
+--   SELECT name FROM storage.objects o WHERE bucket_id = 'review-documents'
+--     AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.feedback_360_file_url = o.name)
+--     AND name NOT LIKE 'uploads/%';
@@ -0,0 +1,3 @@
+-- 360 feedback comments segmented by rater group and question, and the recurring themes across
+-- them with frequency counts and sentiment. Used in the prompt in place of the 360 text.
+ALTER TABLE reviews ADD COLUMN feedback_360_analysis JSONB;
@@ -0,0 +1,27 @@
+-- Employees can read their own reviews once they are finalized and respond to them. They see the
+-- final text and ratings only, not the manager's inputs, so reads go through this function rather
+-- than a policy on reviews. Reopened reviews are hidden until they are finalized again.
+CREATE OR REPLACE FUNCTION employee_reviews()
+RETURNS TABLE (
+  id UUID,
+  review_cycle_id UUID,
+  template_version_id UUID,
+  sections JSONB,
+  section_ratings JSONB,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT id, review_cycle_id, template_version_id, generated_sections || final_sections, section_ratings, updated_at
+  FROM reviews
+  WHERE employee_id = auth.uid()::uuid AND status = 'finalized' AND NOT reopened;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Responses and acknowledgements are recorded in the review history
+CREATE POLICY "Employees can respond to their finalized reviews" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND
+  change_type IN ('employee_responded', 'employee_acknowledged') AND
+  review_id IN (SELECT id FROM employee_reviews())
+);
+CREATE POLICY "Employees can view their responses" ON review_history FOR SELECT USING (
+  changed_by = auth.uid()::uuid AND
+  change_type IN ('employee_responded', 'employee_acknowledged')
+);
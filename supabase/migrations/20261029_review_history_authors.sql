@@ -0,0 +1,16 @@
+-- History entries keep their author's name. The users policy only shows the caller's own profile,
+-- so joining users from the history hid entries written by admins, other managers and employees.
+ALTER TABLE review_history ADD COLUMN changed_by_name VARCHAR(255);
+
+UPDATE review_history SET changed_by_name = users.name FROM users WHERE users.id = review_history.changed_by;
+
+-- Runs as the owner so it can read the author's profile
+CREATE OR REPLACE FUNCTION set_review_history_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.changed_by_name = (SELECT name FROM users WHERE id = NEW.changed_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_review_history_author BEFORE INSERT ON review_history FOR EACH ROW EXECUTE FUNCTION set_review_history_author();
@@ -0,0 +1,13 @@
+-- Whether a review has each text input, so review lists can show it without loading the text.
+-- PostgREST exposes these as computed columns, e.g. select=id,has_feedback_360_text
+CREATE OR REPLACE FUNCTION has_feedback_360_text(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce($1.feedback_360_text, '') <> '';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION has_self_review_text(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce($1.self_review_text, '') <> '';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION has_manager_comments(reviews) RETURNS BOOLEAN AS $$
+  SELECT coalesce(btrim($1.manager_comments), '') <> '';
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,54 @@
+-- The cycle lock was only checked by the app: managers could still update reviews in a closed
+-- cycle directly, and admins could update any column of any review. Reviews in a closed cycle are
+-- now read-only in the database until an admin reopens them through reopen_review().
+DROP POLICY "Admins can reopen reviews" ON reviews;
+
+CREATE OR REPLACE FUNCTION enforce_review_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  review reviews := CASE WHEN TG_OP = 'INSERT' THEN NEW ELSE OLD END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.reopened AND NOT OLD.reopened AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reopen reviews' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Moving a review into a closed cycle counts as editing it there
+  IF NOT review.reopened AND EXISTS (
+    SELECT 1 FROM review_cycles
+    WHERE status = 'completed' AND id IN (review.review_cycle_id, CASE WHEN TG_OP = 'UPDATE' THEN NEW.review_cycle_id END)
+  ) THEN
+    -- Reopening only sets the flag
+    IF TG_OP = 'UPDATE' AND NEW.reopened AND
+       (to_jsonb(NEW) - 'reopened' - 'updated_at') = (to_jsonb(OLD) - 'reopened' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'This review cycle is closed. Ask an admin to reopen the review to make changes.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_review_lock BEFORE INSERT OR UPDATE OR DELETE ON reviews FOR EACH ROW EXECUTE FUNCTION enforce_review_lock();
+
+-- The only way admins change a review: allows edits to a review in a closed cycle until it is
+-- finalized again
+CREATE OR REPLACE FUNCTION reopen_review(review_uuid UUID)
+RETURNS reviews AS $$
+DECLARE
+  reopened_review reviews;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reopen reviews' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE reviews SET reopened = TRUE
+  WHERE id = review_uuid AND review_cycle_id IN (SELECT id FROM review_cycles WHERE status = 'completed')
+  RETURNING * INTO reopened_review;
+
+  IF reopened_review.id IS NULL THEN
+    RAISE EXCEPTION 'Only reviews in a closed cycle can be reopened' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN reopened_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
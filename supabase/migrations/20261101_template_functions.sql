@@ -0,0 +1,44 @@
+-- Saving a template and changing the default each take two writes; doing them in one function call
+-- keeps them in one transaction, so a failed second write can't leave a template without versions
+-- or no default template. The functions run as the caller, so the admin-only policies still apply.
+CREATE OR REPLACE FUNCTION create_review_template(template_name TEXT, template_description TEXT, template_sections JSONB)
+RETURNS UUID AS $$
+DECLARE
+  new_template_id UUID;
+BEGIN
+  INSERT INTO review_templates (name, description, created_by)
+  VALUES (template_name, template_description, auth.uid()::uuid)
+  RETURNING id INTO new_template_id;
+
+  INSERT INTO review_template_versions (template_id, version, sections, created_by)
+  VALUES (new_template_id, 1, template_sections, auth.uid()::uuid);
+
+  RETURN new_template_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Saves the sections as the template's next version; returns null when there is no such template
+CREATE OR REPLACE FUNCTION update_review_template(template_uuid UUID, template_name TEXT, template_description TEXT, template_sections JSONB)
+RETURNS UUID AS $$
+BEGIN
+  UPDATE review_templates SET name = template_name, description = template_description WHERE id = template_uuid;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO review_template_versions (template_id, version, sections, created_by)
+  SELECT template_uuid, COALESCE(MAX(version), 0) + 1, template_sections, auth.uid()::uuid
+  FROM review_template_versions WHERE template_id = template_uuid;
+
+  RETURN template_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only one template is the default; the partial unique index rejects a second one
+CREATE OR REPLACE FUNCTION set_default_review_template(template_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE review_templates SET is_default = FALSE WHERE is_default AND id <> template_uuid;
+  UPDATE review_templates SET is_default = TRUE WHERE id = template_uuid;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- Drops the fixed generated_*/final_* columns that 20261021_review_templates copied into
+-- generated_sections and final_sections. Run it once the copied sections have been checked; it
+-- stops without dropping anything if a review has old column text that wasn't copied.
+DO $$
+BEGIN
+  -- Databases set up from supabase-schema.sql never had the old columns
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'reviews' AND column_name = 'generated_strengths') THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM reviews WHERE
+      (generated_strengths IS NOT NULL AND NOT generated_sections ? 'strengths') OR
+      (generated_development IS NOT NULL AND NOT generated_sections ? 'developmentFeedback') OR
+      (generated_goals IS NOT NULL AND NOT generated_sections ? 'goalsNextYear') OR
+      (generated_overall IS NOT NULL AND NOT generated_sections ? 'overallAssessment') OR
+      (final_strengths IS NOT NULL AND NOT final_sections ? 'strengths') OR
+      (final_development IS NOT NULL AND NOT final_sections ? 'developmentFeedback') OR
+      (final_goals IS NOT NULL AND NOT final_sections ? 'goalsNextYear') OR
+      (final_overall IS NOT NULL AND NOT final_sections ? 'overallAssessment')
+  ) THEN
+    RAISE EXCEPTION 'Some reviews have section text that was not copied to generated_sections/final_sections';
+  END IF;
+END $$;
+
+ALTER TABLE reviews
+  DROP COLUMN IF EXISTS generated_strengths,
+  DROP COLUMN IF EXISTS generated_development,
+  DROP COLUMN IF EXISTS generated_goals,
+  DROP COLUMN IF EXISTS generated_overall,
+  DROP COLUMN IF EXISTS final_strengths,
+  DROP COLUMN IF EXISTS final_development,
+  DROP COLUMN IF EXISTS final_goals,
+  DROP COLUMN IF EXISTS final_overall;
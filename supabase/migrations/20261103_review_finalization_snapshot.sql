@@ -0,0 +1,52 @@
+-- Employees read and acknowledge the review as it was finalized. Any later write to the review
+-- changed updated_at, which reset acknowledgements and the finalization date shown to the
+-- employee, and they were shown the live text. Finalizing now records its own time and a copy of
+-- the text and ratings, and employees see that copy.
+ALTER TABLE reviews ADD COLUMN finalized_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE reviews ADD COLUMN finalized_sections JSONB;
+ALTER TABLE reviews ADD COLUMN finalized_ratings JSONB;
+
+UPDATE reviews SET
+  finalized_at = updated_at,
+  finalized_sections = generated_sections || final_sections,
+  finalized_ratings = section_ratings
+WHERE status = 'finalized';
+
+-- Set when a review becomes finalized, or is finalized again after being reopened
+CREATE OR REPLACE FUNCTION record_review_finalization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'finalized' AND (TG_OP = 'INSERT' OR OLD.status <> 'finalized' OR (OLD.reopened AND NOT NEW.reopened)) THEN
+    NEW.finalized_at = NOW();
+    NEW.finalized_sections = NEW.generated_sections || NEW.final_sections;
+    NEW.finalized_ratings = NEW.section_ratings;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_review_finalization BEFORE INSERT OR UPDATE ON reviews FOR EACH ROW EXECUTE FUNCTION record_review_finalization();
+
+-- The return columns change, so the function and the policy that uses it are recreated
+DROP POLICY "Employees can respond to their finalized reviews" ON review_history;
+DROP FUNCTION employee_reviews();
+
+CREATE FUNCTION employee_reviews()
+RETURNS TABLE (
+  id UUID,
+  review_cycle_id UUID,
+  template_version_id UUID,
+  sections JSONB,
+  section_ratings JSONB,
+  finalized_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT id, review_cycle_id, template_version_id, finalized_sections, finalized_ratings, finalized_at
+  FROM reviews
+  WHERE employee_id = auth.uid()::uuid AND status = 'finalized' AND NOT reopened;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Employees can respond to their finalized reviews" ON review_history FOR INSERT WITH CHECK (
+  changed_by = auth.uid()::uuid AND
+  change_type IN ('employee_responded', 'employee_acknowledged') AND
+  review_id IN (SELECT id FROM employee_reviews())
+);
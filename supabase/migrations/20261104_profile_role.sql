@@ -0,0 +1,7 @@
+-- The profile insert policy only checked the id, so a signed-in user could create their own
+-- profile with role 'admin' and pass is_admin(). Admins are now only made in the database.
+DROP POLICY "Users can create own profile" ON users;
+
+CREATE POLICY "Users can create own profile" ON users FOR INSERT WITH CHECK (
+  auth.uid()::text = id::text AND (role IS NULL OR role = 'manager')
+);
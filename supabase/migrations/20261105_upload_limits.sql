@@ -0,0 +1,11 @@
+-- Sizes were only checked against the size the browser declared when it asked for an upload URL,
+-- so an upload could be any size. Storage now rejects files over the largest limit in
+-- UPLOAD_RULES (lib/uploads.ts, 20 MB for 360 feedback) and of any type the app doesn't accept.
+UPDATE storage.buckets SET
+  file_size_limit = 20971520,
+  allowed_mime_types = ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain', 'text/markdown'
+  ]
+WHERE id = 'review-documents';
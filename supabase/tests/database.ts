@@ -0,0 +1,60 @@
+// Loads supabase-schema.sql into an in-process Postgres (PGlite) with the parts of Supabase it
+// depends on, so triggers and policies can be tested without a Supabase project
+
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp'
+
+// auth.uid() reads the signed-in user from a setting, and storage has only what the schema uses
+const SUPABASE_STUBS = `
+  CREATE ROLE authenticated;
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::uuid;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE SCHEMA storage;
+  CREATE TABLE storage.buckets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    public BOOLEAN DEFAULT FALSE,
+    file_size_limit BIGINT,
+    allowed_mime_types TEXT[]
+  );
+  CREATE TABLE storage.objects (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    bucket_id TEXT REFERENCES storage.buckets(id),
+    name TEXT,
+    metadata JSONB
+  );
+  ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+  CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[] AS $$
+    SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+  $$ LANGUAGE sql IMMUTABLE;
+`
+
+const GRANTS = `
+  GRANT USAGE ON SCHEMA public, auth, storage TO authenticated;
+  GRANT ALL ON ALL TABLES IN SCHEMA public, storage TO authenticated;
+  GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public, auth, storage TO authenticated;
+`
+
+export async function createDatabase() {
+  const db = new PGlite({ extensions: { uuid_ossp } })
+  const schema = readFileSync(join(__dirname, '..', '..', 'supabase-schema.sql'), 'utf8')
+  await db.exec(SUPABASE_STUBS)
+  await db.exec(schema)
+  await db.exec(GRANTS)
+  return db
+}
+
+// Runs the queries as a signed-in user, with row level security applied
+export async function asUser<T>(db: PGlite, userId: string, run: () => Promise<T>): Promise<T> {
+  await db.exec(`SET ROLE authenticated; SET request.jwt.claim.sub = '${userId}';`)
+  try {
+    return await run()
+  } finally {
+    await db.exec(`RESET ROLE; RESET request.jwt.claim.sub;`)
+  }
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { asUser, createDatabase } from './database'
+
+const ADMIN = '00000000-0000-0000-0000-00000000000a'
+const MANAGER = '00000000-0000-0000-0000-00000000000b'
+const EMPLOYEE = '00000000-0000-0000-0000-00000000000c'
+const CYCLE = '00000000-0000-0000-0000-00000000000d'
+const REVIEW = '00000000-0000-0000-0000-00000000000e'
+
+const CLOSED = /This review cycle is closed/
+
+let db: PGlite
+
+async function review() {
+  const { rows } = await db.query<{ status: string; reopened: boolean; final_sections: Record<string, string>; finalized_at: string | null; finalized_sections: Record<string, string> | null }>(
+    'SELECT status, reopened, final_sections, finalized_at, finalized_sections FROM reviews WHERE id = $1', [REVIEW]
+  )
+  return rows[0]
+}
+
+// The queries saveReview and updateReviewContent send for an existing review
+function editSummary(text: string) {
+  return db.query(
+    `UPDATE reviews SET final_sections = final_sections || jsonb_build_object('summary', $2::text), status = 'reviewed' WHERE id = $1`,
+    [REVIEW, text]
+  )
+}
+
+function finalize() {
+  return db.query(`UPDATE reviews SET status = 'finalized', reopened = FALSE WHERE id = $1`, [REVIEW])
+}
+
+beforeEach(async () => {
+  db = await createDatabase()
+  await db.exec(`
+    INSERT INTO users (id, email, name, role) VALUES
+      ('${ADMIN}', 'admin@example.com', 'Admin', 'admin'),
+      ('${MANAGER}', 'manager@example.com', 'Manager', 'manager');
+    INSERT INTO employees (id, name, email, manager_id) VALUES ('${EMPLOYEE}', 'Jane Doe', 'jane@example.com', '${MANAGER}');
+    INSERT INTO review_cycles (id, name, year, start_date, end_date, status) VALUES ('${CYCLE}', '2026', 2026, '2026-01-01', '2026-12-31', 'active');
+    INSERT INTO reviews (id, employee_id, review_cycle_id, manager_id, final_sections, status)
+      VALUES ('${REVIEW}', '${EMPLOYEE}', '${CYCLE}', '${MANAGER}', '{"summary": "Finalized text"}', 'finalized');
+    UPDATE review_cycles SET status = 'completed' WHERE id = '${CYCLE}';
+  `)
+})
+
+describe('enforce_review_lock', () => {
+  it('rejects edits and deletes in a closed cycle', async () => {
+    await asUser(db, MANAGER, async () => {
+      await expect(editSummary('Changed')).rejects.toThrow(CLOSED)
+      await expect(db.query('DELETE FROM reviews WHERE id = $1', [REVIEW])).rejects.toThrow(CLOSED)
+    })
+    expect((await review()).final_sections).toEqual({ summary: 'Finalized text' })
+  })
+
+  it('rejects new reviews and moves into a closed cycle', async () => {
+    await db.exec(`
+      INSERT INTO employees (id, name, email, manager_id) VALUES ('00000000-0000-0000-0000-0000000000f1', 'John Roe', 'john@example.com', '${MANAGER}');
+      INSERT INTO review_cycles (id, name, year, start_date, end_date, status) VALUES ('00000000-0000-0000-0000-0000000000f2', '2027', 2027, '2027-01-01', '2027-12-31', 'active');
+    `)
+    await asUser(db, MANAGER, async () => {
+      await expect(db.query(
+        `INSERT INTO reviews (employee_id, review_cycle_id, manager_id) VALUES ('00000000-0000-0000-0000-0000000000f1', $1, $2)`,
+        [CYCLE, MANAGER]
+      )).rejects.toThrow(CLOSED)
+      const { rows } = await db.query<{ id: string }>(
+        `INSERT INTO reviews (employee_id, review_cycle_id, manager_id) VALUES ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000f2', $1) RETURNING id`,
+        [MANAGER]
+      )
+      await expect(db.query('UPDATE reviews SET review_cycle_id = $2 WHERE id = $1', [rows[0].id, CYCLE])).rejects.toThrow(CLOSED)
+    })
+  })
+
+  it('only lets admins set the reopened flag', async () => {
+    await asUser(db, MANAGER, async () => {
+      await expect(db.query('UPDATE reviews SET reopened = TRUE WHERE id = $1', [REVIEW])).rejects.toThrow(/Only admins/)
+      await expect(db.query('SELECT reopen_review($1)', [REVIEW])).rejects.toThrow(/Only admins/)
+    })
+  })
+
+  it('keeps admins to reopening, which changes nothing but the flag', async () => {
+    await asUser(db, ADMIN, async () => {
+      const { affectedRows } = await db.query(`UPDATE reviews SET reopened = TRUE WHERE id = $1`, [REVIEW])
+      expect(affectedRows).toBe(0)
+    })
+    // As reopen_review() runs: as the owner, past row level security
+    await db.exec(`SET request.jwt.claim.sub = '${ADMIN}'`)
+    await expect(db.query(
+      `UPDATE reviews SET reopened = TRUE, final_sections = '{"summary": "Changed"}' WHERE id = $1`, [REVIEW]
+    )).rejects.toThrow(CLOSED)
+  })
+})
+
+describe('reopen_review', () => {
+  it('allows edits until the review is finalized again', async () => {
+    await asUser(db, ADMIN, () => db.query('SELECT reopen_review($1)', [REVIEW]))
+    expect((await review()).reopened).toBe(true)
+
+    await asUser(db, MANAGER, async () => {
+      await editSummary('Edited after reopening')
+      await finalize()
+    })
+
+    const finalized = await review()
+    expect(finalized).toMatchObject({ status: 'finalized', reopened: false })
+    expect(finalized.finalized_sections).toEqual({ summary: 'Edited after reopening' })
+    expect(finalized.finalized_at).not.toBeNull()
+
+    await asUser(db, MANAGER, () => expect(editSummary('Edited after finalizing')).rejects.toThrow(CLOSED))
+  })
+
+  it('only reopens reviews in a closed cycle', async () => {
+    await db.exec(`UPDATE review_cycles SET status = 'active' WHERE id = '${CYCLE}'`)
+    await asUser(db, ADMIN, async () => {
+      await expect(db.query('SELECT reopen_review($1)', [REVIEW])).rejects.toThrow(/Only reviews in a closed cycle/)
+    })
+  })
+})
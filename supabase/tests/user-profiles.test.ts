@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { asUser, createDatabase } from './database'
+
+const USER = '00000000-0000-0000-0000-000000000001'
+
+let db: PGlite
+
+function createProfile(role?: string) {
+  return role === undefined
+    ? db.query(`INSERT INTO users (id, email, name) VALUES ($1, 'new@example.com', 'New')`, [USER])
+    : db.query(`INSERT INTO users (id, email, name, role) VALUES ($1, 'new@example.com', 'New', $2)`, [USER, role])
+}
+
+beforeEach(async () => {
+  db = await createDatabase()
+})
+
+describe('Users can create own profile', () => {
+  it('creates a manager profile on first sign-in', async () => {
+    await asUser(db, USER, () => createProfile())
+    await asUser(db, USER, async () => {
+      expect((await db.query('SELECT is_admin() AS admin')).rows).toEqual([{ admin: false }])
+    })
+  })
+
+  it('rejects a profile that makes its user an admin', async () => {
+    await asUser(db, USER, () => expect(createProfile('admin')).rejects.toThrow(/row-level security/))
+  })
+
+  it("rejects another user's profile", async () => {
+    await asUser(db, '00000000-0000-0000-0000-000000000002', () => expect(createProfile()).rejects.toThrow(/row-level security/))
+  })
+})
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    include: ['lib/**/*.test.ts', 'supabase/tests/**/*.test.ts'],
+    // The database tests load the whole schema into an in-process Postgres
+    testTimeout: 30000
+  }
+})